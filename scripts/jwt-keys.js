@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+// Manages the asymmetric JWT signing keys read by src/services/jwtKeys.ts.
+// Usage: node scripts/jwt-keys.js <command> [options]
+//
+//   list                     show keys and which one is active
+//   add [--alg RS256|ES256]  generate a key that only verifies (publish it first)
+//   activate <kid>           start signing new tokens with <kid>
+//   rotate [--alg ...]       add + activate in one step
+//   retire <kid>             remove a key once no unexpired token uses it
+//   print-env                print the key set as a single line for JWT_KEYS
+//
+// Safe rotation across several instances: `add`, deploy so every instance
+// accepts and publishes the new key, `activate`, deploy, then `retire` the old
+// key after the longest access token lifetime has passed.
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const projectRoot = path.resolve(__dirname, '..');
+const keysPath = path.resolve(process.env.JWT_KEYS_FILE || path.join(projectRoot, 'keys', 'jwt-keys.json'));
+
+const SUPPORTED_ALGORITHMS = ['RS256', 'ES256'];
+
+function readKeySet() {
+  try {
+    return JSON.parse(fs.readFileSync(keysPath, 'utf8'));
+  } catch (err) {
+    return { activeKid: null, keys: [] };
+  }
+}
+
+function writeKeySet(keySet) {
+  fs.mkdirSync(path.dirname(keysPath), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(keysPath, JSON.stringify(keySet, null, 2) + '\n', { encoding: 'utf8', mode: 0o600 });
+}
+
+function generateKey(alg) {
+  const { publicKey, privateKey } = alg === 'ES256'
+    ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  // kid derived from the public key so it is stable and unique
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  const kid = crypto.createHash('sha256').update(der).digest('base64url').slice(0, 16);
+
+  return {
+    kid,
+    alg,
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function optionValue(args, name, fallback) {
+  const idx = args.indexOf(name);
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : fallback;
+}
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+function addKey(keySet, args) {
+  const alg = optionValue(args, '--alg', 'RS256').toUpperCase();
+  if (!SUPPORTED_ALGORITHMS.includes(alg)) fail(`Unsupported --alg ${alg}. Use one of: ${SUPPORTED_ALGORITHMS.join(', ')}`);
+
+  const key = generateKey(alg);
+  keySet.keys.push(key);
+  // the very first key has to sign, otherwise the key set is unusable
+  if (!keySet.activeKid) keySet.activeKid = key.kid;
+  return key;
+}
+
+(function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const keySet = readKeySet();
+
+  switch (command) {
+    case 'list': {
+      if (keySet.keys.length === 0) console.log(`No keys in ${keysPath}`);
+      keySet.keys.forEach(key => {
+        const marker = key.kid === keySet.activeKid ? '* ' : '  ';
+        console.log(`${marker}${key.kid}  ${key.alg}  created ${key.createdAt || 'unknown'}`);
+      });
+      break;
+    }
+    case 'add': {
+      const key = addKey(keySet, args);
+      writeKeySet(keySet);
+      console.log(`Added ${key.alg} key ${key.kid}${key.kid === keySet.activeKid ? ' (active)' : ''} to ${keysPath}`);
+      break;
+    }
+    case 'activate': {
+      const kid = args[0];
+      if (!keySet.keys.some(key => key.kid === kid)) fail(`No key with kid ${kid}`);
+      keySet.activeKid = kid;
+      writeKeySet(keySet);
+      console.log(`Key ${kid} now signs new tokens`);
+      break;
+    }
+    case 'rotate': {
+      const previous = keySet.activeKid;
+      const key = addKey(keySet, args);
+      keySet.activeKid = key.kid;
+      writeKeySet(keySet);
+      console.log(`Key ${key.kid} now signs new tokens${previous ? `, ${previous} is kept for verification` : ''}`);
+      break;
+    }
+    case 'retire': {
+      const kid = args[0];
+      if (kid === keySet.activeKid) fail('Refusing to retire the active key, activate another key first');
+      const before = keySet.keys.length;
+      keySet.keys = keySet.keys.filter(key => key.kid !== kid);
+      if (keySet.keys.length === before) fail(`No key with kid ${kid}`);
+      writeKeySet(keySet);
+      console.log(`Removed key ${kid}`);
+      break;
+    }
+    case 'print-env': {
+      if (keySet.keys.length === 0) fail(`No keys in ${keysPath}`);
+      console.log(`JWT_KEYS=${JSON.stringify(keySet)}`);
+      break;
+    }
+    default:
+      fail('Usage: node scripts/jwt-keys.js <list|add|activate|rotate|retire|print-env> [--alg RS256|ES256] [kid]');
+  }
+})();
@@ -1,21 +1,35 @@
+// Load .env before any module reads process.env at import time (e.g. services/jwt)
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import mongoose from 'mongoose';
-import dotenv from 'dotenv';
 
 import productsRouter from './routes/products';
 import usersRouter from './routes/users';
 import flatsRouter from './routes/flats';
 import authRouter from './routes/auth';
 import questionsRouter from './routes/questions';
+import infoCardsRouter from './routes/infoCards';
+import categoriesRouter from './routes/categories';
+import jwksRouter from './routes/jwks';
+import apiKeysRouter from './routes/apiKeys';
+import oidcRouter from './routes/oidc';
+import auditRouter from './routes/audit';
+import requestContext from './middleware/requestContext';
 import { swaggerUi, swaggerSpec } from './swagger';
-
-dotenv.config();
+import { startUserPurgeJob } from './services/userDeletion';
+import { seedLanguages } from './services/languages';
+import { backfillInfoCardPositions } from './services/infoCards';
 
 const app = express();
+// Behind a reverse proxy req.ip must come from X-Forwarded-For (used for login throttling).
+// TRUST_PROXY is a hop count or a list of trusted proxy addresses.
+if (process.env.TRUST_PROXY) app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
 app.use(cors());
 app.use(express.json({ limit: '15mb' }));
 app.use(express.urlencoded({ extended: true, limit: '15mb' }));
+// request id and acting user for the audit log; after the body parsers, they lose the async context
+app.use(requestContext);
 
 
 // Initialize Firebase if env is present
@@ -29,11 +43,24 @@ async function start() {
     await mongoose.connect(MONGODB_URI, { dbName: MONGODB_DB });
     console.log(`Connected to MongoDB (db: ${MONGODB_DB})`);
 
+    // info card details are validated against the Language collection
+    await seedLanguages();
+    // public info card lists are sorted by position
+    await backfillInfoCardPositions();
+
     app.use('/api', productsRouter);
     app.use('/api', authRouter);
+    app.use('/api', oidcRouter);
     app.use('/api', usersRouter);
     app.use('/api', flatsRouter);
     app.use('/api', questionsRouter);
+    app.use('/api', infoCardsRouter);
+    app.use('/api', categoriesRouter);
+    app.use('/api', apiKeysRouter);
+    app.use('/api', auditRouter);
+
+    // Public signing keys live at the well-known location, outside /api
+    app.use(jwksRouter);
 
     // Swagger UI (auto-generated from JSDoc comments)
     app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
@@ -41,6 +68,9 @@ async function start() {
     // Raw OpenAPI JSON - useful for clients or tooling
     app.get('/api/docs.json', (_req, res) => res.json(swaggerSpec));
 
+    // Removes soft-deleted users once their retention period is over
+    startUserPurgeJob();
+
     app.listen(PORT, () => {
       console.log(`Server running on http://localhost:${PORT}`);
     });
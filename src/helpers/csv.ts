@@ -0,0 +1,49 @@
+// RFC 4180 CSV: quoted fields may contain the delimiter, quotes ("") and line breaks
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // strip the byte order mark spreadsheet exports like to add
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (input[i + 1] === '"') field += input[++i];
+      else quoted = false;
+      continue;
+    }
+
+    if (char === '"' && field === '') quoted = true;
+    else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += char;
+  }
+
+  if (quoted) throw new Error('Unterminated quoted field');
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// First row holds the column names; blank lines are skipped
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text).filter(row => row.some(value => value.trim() !== ''));
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim());
+  return rows.map(row => Object.fromEntries(columns.map((column, index) => [column, (row[index] ?? '').trim()])));
+}
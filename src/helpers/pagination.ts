@@ -0,0 +1,187 @@
+import {Model, Query, QueryOptions, Types} from 'mongoose';
+
+// ?limit above this is clamped, not rejected
+export const MAX_PAGE_SIZE = Number(process.env.PAGINATION_MAX_LIMIT || 100);
+export const DEFAULT_PAGE_SIZE = Math.min(Number(process.env.PAGINATION_DEFAULT_LIMIT || 50), MAX_PAGE_SIZE);
+
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+export interface PaginationOptions {
+  // fields clients may pass in ?sort (prefix with - for descending)
+  sortFields: readonly string[];
+  // e.g. '-createdAt'
+  defaultSort: string;
+}
+
+export interface PageRequest {
+  limit: number;
+  sortField: string;
+  // 1 ascending, -1 descending
+  direction: 1 | -1;
+  // offset mode, kept for clients that page with ?skip
+  skip?: number;
+  cursor?: DecodedCursor;
+}
+
+interface DecodedCursor {
+  sortField: string;
+  direction: 1 | -1;
+  value: unknown;
+  id: Types.ObjectId;
+  // which way to walk from the anchor document
+  towards: 'next' | 'prev';
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  skip?: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+// Cursors are opaque to clients: base64url JSON holding the sort, the sort value
+// of the anchor document and its _id as tie breaker.
+function encodeCursor(cursor: DecodedCursor): string {
+  const value = cursor.value instanceof Date ? {$date: cursor.value.toISOString()} : cursor.value;
+  return Buffer.from(JSON.stringify({
+    f: cursor.sortField,
+    d: cursor.direction,
+    v: value ?? null,
+    i: String(cursor.id),
+    t: cursor.towards,
+  })).toString('base64url');
+}
+
+function decodeCursor(raw: string): DecodedCursor {
+  try {
+    const data = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (!Types.ObjectId.isValid(data.i) || (data.d !== 1 && data.d !== -1) || !['next', 'prev'].includes(data.t)) {
+      throw new Error('malformed');
+    }
+    const value = data.v && typeof data.v === 'object' && '$date' in data.v ? new Date(data.v.$date) : data.v;
+    return {sortField: String(data.f), direction: data.d, value, id: new Types.ObjectId(data.i), towards: data.t};
+  } catch {
+    throw new PaginationError('Invalid cursor');
+  }
+}
+
+// Reads ?limit, ?sort, ?cursor and ?skip. A cursor wins over skip.
+export function parsePagination(query: Record<string, any>, options: PaginationOptions): PageRequest {
+  const rawLimit = query.limit !== undefined ? Number(query.limit) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(rawLimit) || rawLimit < 1) throw new PaginationError('limit must be a positive integer');
+  const limit = Math.min(rawLimit, MAX_PAGE_SIZE);
+
+  const sort = typeof query.sort === 'string' && query.sort ? query.sort : options.defaultSort;
+  const sortField = sort.replace(/^-/, '');
+  const direction = sort.startsWith('-') ? -1 : 1;
+  if (!options.sortFields.includes(sortField)) {
+    throw new PaginationError(`sort must be one of: ${options.sortFields.join(', ')} (prefix with - for descending)`);
+  }
+
+  if (typeof query.cursor === 'string' && query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (cursor.sortField !== sortField || cursor.direction !== direction) {
+      throw new PaginationError('cursor was issued for a different sort');
+    }
+    return {limit, sortField, direction, cursor};
+  }
+
+  if (query.skip !== undefined) {
+    const skip = Number(query.skip);
+    if (!Number.isInteger(skip) || skip < 0) throw new PaginationError('skip must be a non-negative integer');
+    return {limit, sortField, direction, skip};
+  }
+
+  return {limit, sortField, direction};
+}
+
+// Filter for documents strictly after the anchor in `direction` order. Missing and
+// null sort values sort before everything else in MongoDB, which is mirrored here.
+function afterAnchor(field: string, value: unknown, id: Types.ObjectId, direction: 1 | -1): Record<string, any> {
+  const idOp = direction === 1 ? '$gt' : '$lt';
+  if (field === '_id') return {_id: {[idOp]: id}};
+
+  if (value === null || value === undefined) {
+    return direction === 1
+        ? {$or: [{[field]: null, _id: {$gt: id}}, {[field]: {$ne: null}}]}
+        : {[field]: null, _id: {$lt: id}};
+  }
+  const or: Record<string, any>[] = [
+    {[field]: {[idOp]: value}},
+    {[field]: value, _id: {[idOp]: id}},
+  ];
+  if (direction === -1) or.push({[field]: null});
+  return {$or: or};
+}
+
+function readPath(doc: any, field: string): unknown {
+  return field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+/**
+ * Runs a paginated find sorted on (sortField, _id) so pages are stable under
+ * concurrent writes. `project` can add select/populate/lean to the find query;
+ * `queryOptions` are applied to both the find and the count.
+ */
+export async function paginate<T>(
+    model: Model<T>,
+    filter: Record<string, any>,
+    page: PageRequest,
+    {project, queryOptions}: { project?: (query: Query<any, any>) => Query<any, any>; queryOptions?: QueryOptions } = {}
+): Promise<Page<any>> {
+  const {limit, sortField, direction, cursor} = page;
+  // walking backwards means reading in reverse order and flipping the result
+  const readDirection = cursor?.towards === 'prev' ? (-direction as 1 | -1) : direction;
+
+  // filter keys stay at the top level, model hooks look at them (see User deletedAt)
+  const conditions = cursor
+      ? {...filter, $and: [...(filter.$and || []), afterAnchor(sortField, cursor.value, cursor.id, readDirection)]}
+      : filter;
+  const sort: Record<string, 1 | -1> = sortField === '_id'
+      ? {_id: readDirection}
+      : {[sortField]: readDirection, _id: readDirection};
+
+  let query = model.find(conditions).sort(sort).limit(limit + 1);
+  if (page.skip) query = query.skip(page.skip);
+  if (queryOptions) query = query.setOptions(queryOptions);
+  if (project) query = project(query);
+
+  let countQuery = model.countDocuments(filter);
+  if (queryOptions) countQuery = countQuery.setOptions(queryOptions);
+
+  const [docs, total] = await Promise.all([query.exec() as Promise<any[]>, countQuery.exec()]);
+
+  const hasMore = docs.length > limit;
+  const items = hasMore ? docs.slice(0, limit) : docs;
+  if (readDirection !== direction) items.reverse();
+
+  const cursorFor = (doc: any, towards: 'next' | 'prev') => encodeCursor({
+    sortField,
+    direction,
+    value: readPath(doc, sortField),
+    id: doc._id,
+    towards,
+  });
+
+  // more items exist in the walking direction when hasMore; the other side
+  // exists whenever we got here through a cursor or a skip
+  const cameFromElsewhere = Boolean(cursor) || Boolean(page.skip);
+  const hasNext = cursor?.towards === 'prev' ? cameFromElsewhere : hasMore;
+  const hasPrev = cursor?.towards === 'prev' ? hasMore : cameFromElsewhere;
+
+  return {
+    items,
+    total,
+    limit,
+    ...(page.skip !== undefined ? {skip: page.skip} : {}),
+    nextCursor: hasNext && items.length ? cursorFor(items[items.length - 1], 'next') : null,
+    prevCursor: hasPrev && items.length ? cursorFor(items[0], 'prev') : null,
+  };
+}
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import bcrypt from 'bcryptjs';
+import bundledBreachedPasswords from './breachedPasswords.json';
+
+const envInt = (name: string, fallback: number) => {
+  const value = Number.parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+const envFlag = (name: string, fallback: boolean) =>
+  process.env[name] === undefined ? fallback : process.env[name] === 'true';
+
+/**
+ * Rules for every password a user chooses (register, reset, change). Configured with
+ * PASSWORD_MIN_LENGTH, PASSWORD_REQUIRE_LOWERCASE / _UPPERCASE / _DIGIT / _SYMBOL and
+ * PASSWORD_HISTORY (how many previous passwords can't be reused, 0 disables the check).
+ */
+export const PASSWORD_POLICY = {
+  minLength: envInt('PASSWORD_MIN_LENGTH', 8),
+  maxLength: 128,
+  requireLowercase: envFlag('PASSWORD_REQUIRE_LOWERCASE', true),
+  requireUppercase: envFlag('PASSWORD_REQUIRE_UPPERCASE', true),
+  requireDigit: envFlag('PASSWORD_REQUIRE_DIGIT', true),
+  requireSymbol: envFlag('PASSWORD_REQUIRE_SYMBOL', false),
+  historySize: envInt('PASSWORD_HISTORY', 5),
+};
+
+// The bundled list holds the most common leaked passwords; a larger list (one
+// password per line, e.g. a top-100k dump) can be added with PASSWORD_BREACHED_LIST_FILE.
+function loadBreachedPasswords(): Set<string> {
+  const passwords = new Set<string>(bundledBreachedPasswords);
+  const file = process.env.PASSWORD_BREACHED_LIST_FILE;
+  if (file) {
+    fs.readFileSync(path.resolve(file), 'utf8')
+        .split(/\r?\n/)
+        .forEach(line => line.trim() && passwords.add(line.trim().toLowerCase()));
+  }
+  return passwords;
+}
+
+const breachedPasswords = loadBreachedPasswords();
+
+export function isBreachedPassword(password: string): boolean {
+  return breachedPasswords.has(password.toLowerCase());
+}
+
+// Returns the rules the password violates, empty when it is acceptable.
+// The email is used to reject passwords that merely repeat the account name.
+export function validatePassword(password: unknown, email?: string): string[] {
+  if (typeof password !== 'string' || !password) return ['password is required'];
+
+  const errors: string[] = [];
+  const policy = PASSWORD_POLICY;
+  if (password.length < policy.minLength) errors.push(`password must be at least ${policy.minLength} characters`);
+  if (password.length > policy.maxLength) errors.push(`password must be at most ${policy.maxLength} characters`);
+  if (policy.requireLowercase && !/[a-z]/.test(password)) errors.push('password must contain a lowercase letter');
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) errors.push('password must contain an uppercase letter');
+  if (policy.requireDigit && !/\d/.test(password)) errors.push('password must contain a digit');
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) errors.push('password must contain a symbol');
+
+  const localPart = email ? email.split('@')[0].toLowerCase() : '';
+  if (localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+    errors.push('password must not contain your email address');
+  }
+  if (isBreachedPassword(password)) errors.push('password appears in a list of breached passwords, choose another one');
+
+  return errors;
+}
+
+// True when the password matches the current one or one of the remembered
+// hashes. The user must be loaded with +password +passwordHistory.
+export async function isRecentPassword(user: { password?: string; passwordHistory?: string[] }, password: string): Promise<boolean> {
+  const history = PASSWORD_POLICY.historySize ? (user.passwordHistory || []).slice(-PASSWORD_POLICY.historySize) : [];
+  const hashes = [user.password, ...history]
+      .filter((hash): hash is string => Boolean(hash));
+  for (const hash of new Set(hashes)) {
+    if (await bcrypt.compare(password, hash)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,67 @@
+import {EnumRoles} from "../models/User";
+
+export const PERMISSIONS = [
+  'products:write',
+  'flats:write',
+  'flats:assign',
+  'questions:write',
+  'infoCards:write',
+  'categories:write',
+  'users:read',
+  'users:write',
+  'users:delete',
+  'roles:manage',
+  'apiKeys:admin',
+  'users:impersonate',
+  'audit:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+/**
+ * Permission matrix. Read endpoints for products, flats, questions, info cards and
+ * categories are public; everything that mutates data requires one of the permissions below.
+ *
+ * | permission        | admin | editor | agent | user |
+ * |-------------------|-------|--------|-------|------|
+ * | products:write    |   x   |   x    |       |      |
+ * | flats:write       |   x   |        |   x   |      |
+ * | flats:assign      |   x   |        |   x   |      |
+ * | questions:write   |   x   |   x    |       |      |
+ * | infoCards:write   |   x   |   x    |       |      |
+ * | categories:write  |   x   |   x    |       |      |
+ * | users:read        |   x   |        |   x   | self |
+ * | users:write       |   x   |        |       | self |
+ * | users:delete      |   x   |        |       |      |
+ * | roles:manage      |   x   |        |       |      |
+ * | apiKeys:admin     |   x   |        |       |      |
+ * | users:impersonate |   x   |        |       |      |
+ * | audit:read        |   x   |        |       |      |
+ *
+ * "self" means the route also lets users act on their own record (see requirePermission allowSelf).
+ * API keys are limited to their scopes on top of this matrix, and never count as "self".
+ */
+export const ROLE_PERMISSIONS: Record<EnumRoles, readonly Permission[]> = {
+  [EnumRoles.ADMIN]: [
+    'products:write',
+    'flats:write',
+    'flats:assign',
+    'questions:write',
+    'infoCards:write',
+    'categories:write',
+    'users:read',
+    'users:write',
+    'users:delete',
+    'roles:manage',
+    'apiKeys:admin',
+    'users:impersonate',
+    'audit:read',
+  ],
+  [EnumRoles.EDITOR]: ['products:write', 'questions:write', 'infoCards:write', 'categories:write'],
+  [EnumRoles.AGENT]: ['flats:write', 'flats:assign', 'users:read'],
+  [EnumRoles.USER]: [],
+};
+
+export function hasPermission(roles: readonly string[] | undefined, permission: Permission): boolean {
+  return (roles || []).some(role => (ROLE_PERMISSIONS[role as EnumRoles] || []).includes(permission));
+}
@@ -0,0 +1,46 @@
+// Profile fields every local account needs, validated the same way for
+// registration and bulk import
+export interface UserProfileFields {
+  email: string;
+  address: string;
+  age: number;
+  firstName: string;
+  lastName: string;
+  birthDate: Date;
+}
+
+export function normalizeEmail(raw: unknown): string {
+  return raw ? String(raw).toLowerCase().trim() : '';
+}
+
+export function validateUserProfile(input: Record<string, any>): { errors: string[]; value: UserProfileFields } {
+  const {email: rawEmail, address, age: rawAge, firstName, lastName, birthDate: rawBirthDate} = input;
+
+  const errors: string[] = [];
+  if (!rawEmail || typeof rawEmail !== 'string') errors.push('email is required');
+  if (!address || typeof address !== 'string') errors.push('address is required');
+  if (rawAge === undefined || rawAge === null || rawAge === '') errors.push('age is required');
+  if (firstName === undefined || firstName === null || String(firstName).trim() === '') errors.push('firstName is required');
+  if (lastName === undefined || lastName === null || String(lastName).trim() === '') errors.push('lastName is required');
+
+  const email = normalizeEmail(rawEmail);
+  const age = rawAge !== undefined && rawAge !== '' ? Number(rawAge) : NaN;
+  const birthDate = rawBirthDate ? new Date(rawBirthDate) : null;
+
+  if (!email.match(/[^@\s]+@[^@\s]+\.[^@\s]+/)) errors.push('email is invalid');
+  if (Number.isNaN(age) || !Number.isFinite(age) || age < 0 || age > 150) errors.push('age must be a number between 0 and 150');
+  if (birthDate && Number.isNaN(birthDate.getTime())) errors.push('birthDate is invalid');
+
+  return {
+    errors,
+    value: {
+      email,
+      address: String(address ?? '').trim(),
+      age: Math.floor(age),
+      firstName: String(firstName ?? '').trim(),
+      lastName: String(lastName ?? '').trim(),
+      // If birthDate not provided, derive approximate birthDate as Jan 1 of (currentYear - age)
+      birthDate: birthDate || new Date(new Date().getFullYear() - Math.floor(age), 0, 1),
+    },
+  };
+}
@@ -1,34 +1,196 @@
 import {Request, Response, NextFunction} from 'express';
-import {verifyAccessToken} from '../services/jwt';
-import {IUser} from "../models/User";
-import {IUserForToken} from "../types/auth";
+import {isRefreshTokenFamilyActive, verifyAccessToken} from '../services/jwt';
+import {authenticateApiKey} from '../services/apiKeys';
+import {
+  FIREBASE_AUTH_ENABLED,
+  findOrCreateUserForFirebaseToken,
+  isFirebaseIdToken,
+  verifyFirebaseIdToken,
+} from '../services/firebaseAuth';
+import {ExternalIdentityError} from '../services/externalIdentities';
+import {toUserForToken} from '../services/authTokens';
+import {EMAIL_VERIFICATION_POLICY, isEmailVerified} from '../services/emailVerification';
+import {logImpersonatedRequest} from '../services/impersonation';
+import {setRequestPrincipal} from '../services/requestContext';
+import User, {EnumRoles} from "../models/User";
+import {AuthPrincipal, IUserForToken} from "../types/auth";
+import {hasPermission, Permission} from "../helpers/permissions";
 
 export interface AuthRequest extends Request {
-  user?: IUserForToken;
+  user?: AuthPrincipal;
 }
 
-export default function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+// Firebase ID tokens carry no session or token version of our own, Firebase
+// handles expiry and revocation. Returns null after sending an error response.
+async function authenticateFirebaseToken(token: string, res: Response): Promise<AuthPrincipal | null> {
+  let decoded;
+  try {
+    decoded = await verifyFirebaseIdToken(token);
+  } catch (err) {
+    res.status(401).json({error: 'Invalid or expired token'});
+    return null;
+  }
+
+  try {
+    const user = await findOrCreateUserForFirebaseToken(decoded);
+    if (EMAIL_VERIFICATION_POLICY === 'block' && !isEmailVerified(user)) {
+      res.status(403).json({error: 'Email address is not verified'});
+      return null;
+    }
+    // the token only proves the first factor; these accounts sign in through
+    // POST /auth/firebase, which asks for the TOTP code like every other login
+    if (user.mfaEnabled) {
+      res.status(401).json({error: 'MFA is enabled for this account, sign in through POST /auth/firebase', mfaRequired: true});
+      return null;
+    }
+    return toUserForToken(user);
+  } catch (err) {
+    if (err instanceof ExternalIdentityError) {
+      res.status(err.status).json({error: err.message});
+      return null;
+    }
+    // e.g. a user that can't be created; never leaks the database error to the client
+    console.error('Mapping a Firebase token to a user failed:', err);
+    res.status(401).json({error: 'Unauthorized'});
+    return null;
+  }
+}
+
+// Attaches the principal for handlers and for the audit log
+function authenticate(req: AuthRequest, principal: AuthPrincipal) {
+  req.user = principal;
+  setRequestPrincipal(principal);
+}
+
+// Accepts `Authorization: Bearer <jwt>`, `Authorization: ApiKey <key>` or `X-API-Key: <key>`.
+// With FIREBASE_AUTH_ENABLED the bearer token may also be a Firebase ID token,
+// except for accounts with MFA enabled.
+export default async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   try {
     const header = req.headers.authorization;
+    const parts = header ? header.split(' ') : [];
+
+    const apiKeyHeader = req.headers['x-api-key'];
+    const apiKey = typeof apiKeyHeader === 'string' ? apiKeyHeader : (parts[0] === 'ApiKey' ? parts[1] : undefined);
+    if (apiKey) {
+      const principal = await authenticateApiKey(apiKey);
+      if (!principal) return res.status(401).json({error: 'Invalid or expired API key'});
+
+      authenticate(req, principal);
+      return next();
+    }
+
     if (!header) {
       return res.status(401).json({error: 'Unauthorized'});
     }
 
-    const parts = header.split(' ');
     if (parts.length !== 2 || parts[0] !== 'Bearer') {
       return res.status(401).json({error: 'Unauthorized'});
     }
 
     const token = parts[1];
-    try {
-      // attach user payload to request for downstream handlers
-      console.log("verifyAccessToken(token)",verifyAccessToken(token))
-      req.user = verifyAccessToken(token);
+    if (FIREBASE_AUTH_ENABLED && isFirebaseIdToken(token)) {
+      const principal = await authenticateFirebaseToken(token, res);
+      if (!principal) return;
+
+      authenticate(req, principal);
       return next();
+    }
+
+    let payload: IUserForToken;
+    try {
+      payload = verifyAccessToken(token);
     } catch (err) {
       return res.status(401).json({error: 'Invalid or expired token'});
     }
+
+    // tokens issued before the last password change / sign-out-everywhere are rejected
+    const user = await User.findById(payload.id).select('tokenVersion').lean();
+    if (!user || (user.tokenVersion ?? 0) !== payload.tokenVersion) {
+      return res.status(401).json({error: 'Invalid or expired token'});
+    }
+
+    // the session was signed out (logout, revoked device, refresh token reuse)
+    if (payload.sessionId && !(await isRefreshTokenFamilyActive(payload.sessionId))) {
+      return res.status(401).json({error: 'Session has been revoked'});
+    }
+
+    // impersonation ends as soon as the admin loses the permission
+    if (payload.actorId) {
+      const actor = await User.findById(payload.actorId).select('roles').lean();
+      if (!actor || !hasPermission(actor.roles, 'users:impersonate')) {
+        return res.status(401).json({error: 'Impersonation is no longer allowed'});
+      }
+      logImpersonatedRequest(payload, req, res);
+    }
+
+    // attach user payload to request for downstream handlers
+    authenticate(req, payload);
+    return next();
   } catch (err: any) {
     return res.status(500).json({error: err?.message || 'Internal server error'});
   }
 }
+
+// For public routes that show more to privileged callers: requests without
+// credentials pass anonymously, requests with credentials must authenticate.
+export function optionalAuthMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+  if (!req.headers.authorization && !req.headers['x-api-key']) return next();
+  return authMiddleware(req, res, next);
+}
+
+// Same check as requirePermission without allowSelf: API keys also need the scope
+export function principalHasPermission(principal: AuthPrincipal | undefined, permission: Permission): boolean {
+  if (!principal || (principal.scopes && !principal.scopes.includes(permission))) return false;
+  return hasPermission(principal.roles, permission);
+}
+
+// Must run after authMiddleware. Passes when the user has at least one of the roles.
+// API keys are always rejected here, they are limited to permission checks.
+export function requireRole(...roles: EnumRoles[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({error: 'Unauthorized'});
+    if (req.user.apiKeyId) return res.status(403).json({error: 'Forbidden'});
+
+    const userRoles = req.user.roles || [];
+    if (!userRoles.some(role => roles.includes(role))) {
+      return res.status(403).json({error: 'Forbidden'});
+    }
+    return next();
+  };
+}
+
+// Must run after authMiddleware. With allowSelf the check also passes when
+// req.params.id is the authenticated user's own id. API keys additionally need
+// the permission in their scopes.
+export function requirePermission(permission: Permission, options: { allowSelf?: boolean } = {}) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({error: 'Unauthorized'});
+
+    if (req.user.scopes) {
+      if (!req.user.scopes.includes(permission) || !hasPermission(req.user.roles, permission)) {
+        return res.status(403).json({error: `Forbidden: API key lacks scope ${permission}`});
+      }
+      return next();
+    }
+
+    if (options.allowSelf && req.params.id && String(req.params.id) === String(req.user.id)) {
+      return next();
+    }
+
+    if (!hasPermission(req.user.roles, permission)) {
+      return res.status(403).json({error: `Forbidden: missing permission ${permission}`});
+    }
+    return next();
+  };
+}
+
+// Must run after authMiddleware. For account-level actions (MFA, passwords,
+// sign-out, managing API keys) that only the signed-in person themselves may
+// perform, so neither API keys nor an admin impersonating the user.
+export function requireSession(req: AuthRequest, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({error: 'Unauthorized'});
+  if (req.user.apiKeyId) return res.status(403).json({error: 'Not available when authenticated with an API key'});
+  if (req.user.actorId) return res.status(403).json({error: 'Not available while impersonating a user'});
+  return next();
+}
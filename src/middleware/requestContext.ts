@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+import {Request, Response, NextFunction} from 'express';
+import {runWithRequestContext} from '../services/requestContext';
+
+// Incoming ids from a proxy are reused when they look sane, otherwise a new one is made
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Gives every request an id (echoed in X-Request-Id) and makes the request
+// context available for the rest of the request. Mount after the body parsers,
+// they lose the async context.
+export default function requestContext(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get('x-request-id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  res.set('X-Request-Id', requestId);
+
+  runWithRequestContext({
+    requestId,
+    ip: req.ip || req.socket.remoteAddress,
+    userAgent: req.get('user-agent'),
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+  }, next);
+}
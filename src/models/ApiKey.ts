@@ -0,0 +1,31 @@
+import mongoose, {Schema, Document, Types} from 'mongoose';
+import {Permission, PERMISSIONS} from '../helpers/permissions';
+
+export interface IApiKey extends Document {
+  name: string;
+  // first characters of the key, shown in listings so keys can be told apart
+  prefix: string;
+  // sha256 of the full key, the key itself is only returned once at creation
+  keyHash: string;
+  // permissions the key may use, on top of what its owner is allowed
+  scopes: Permission[];
+  ownerId: Types.ObjectId;
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  name: {type: String, required: true, trim: true},
+  prefix: {type: String, required: true},
+  keyHash: {type: String, required: true, unique: true, select: false},
+  scopes: [{type: String, enum: PERMISSIONS}],
+  ownerId: {type: Schema.Types.ObjectId, ref: 'User', required: true, index: true},
+  expiresAt: {type: Date, default: null},
+  lastUsedAt: {type: Date, default: null},
+  revokedAt: {type: Date, default: null},
+}, {timestamps: true});
+
+export default mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
@@ -0,0 +1,65 @@
+import mongoose, {Schema, Document, Types} from 'mongoose';
+
+export enum EnumAuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+}
+
+export const AUDITED_ENTITIES = ['User', 'Flat', 'UserFlat', 'Question', 'InfoCard', 'Products', 'Category'] as const;
+
+// One change to one document. Entries are never updated or deleted through the
+// model; the only exception is redacting personal data (see services/audit).
+export interface IAuditLog extends Document {
+  action: EnumAuditAction;
+  // model name, see AUDITED_ENTITIES
+  entityType: string;
+  entityId: Types.ObjectId;
+  // null for changes made outside a request (jobs, scripts) or before sign-in
+  actorId?: Types.ObjectId | null;
+  impersonatorId?: Types.ObjectId | null;
+  apiKeyId?: Types.ObjectId | null;
+  // changed fields only: values before and after the change. Whole document on create (after) and delete (before)
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+  method?: string;
+  path?: string;
+  // before/after were removed on an erasure request
+  redactedAt?: Date;
+  createdAt?: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>({
+  action: {type: String, enum: Object.values(EnumAuditAction), required: true},
+  entityType: {type: String, required: true},
+  entityId: {type: Schema.Types.ObjectId, required: true},
+  actorId: {type: Schema.Types.ObjectId, ref: 'User', default: null, index: true},
+  impersonatorId: {type: Schema.Types.ObjectId, ref: 'User', default: null},
+  apiKeyId: {type: Schema.Types.ObjectId, ref: 'ApiKey', default: null},
+  before: {type: Schema.Types.Mixed, default: null},
+  after: {type: Schema.Types.Mixed, default: null},
+  ip: {type: String},
+  userAgent: {type: String},
+  requestId: {type: String, index: true},
+  method: {type: String},
+  path: {type: String},
+  redactedAt: {type: Date},
+}, {timestamps: {createdAt: true, updatedAt: false}, minimize: false});
+
+AuditLogSchema.index({entityType: 1, entityId: 1, createdAt: -1});
+AuditLogSchema.index({createdAt: -1});
+
+// Append-only
+const refuse = function () {
+  throw new Error('Audit log entries cannot be modified');
+};
+AuditLogSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], refuse);
+AuditLogSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], {document: false, query: true}, refuse);
+AuditLogSchema.pre('save', function () {
+  if (!this.isNew) throw new Error('Audit log entries cannot be modified');
+});
+
+export default mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
@@ -0,0 +1,52 @@
+import mongoose, {Schema, Document} from 'mongoose';
+import {auditPlugin} from './plugins/audit';
+import {EnumLanguageIds} from './Language';
+
+// Name per language, keyed by the numeric language id: {"1": "...", "2": "..."}
+export type ICategoryNames = Partial<Record<EnumLanguageIds, string>>;
+
+// Shared by Question.categoryId and InfoCard.categoryIdList
+export interface ICategory extends Document {
+  categoryId: number;
+  slug: string;
+  // categoryId of the parent, null for top-level categories
+  parentId?: number | null;
+  names: ICategoryNames;
+  status?: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const LANGUAGE_IDS = [EnumLanguageIds.GEORGIAN, EnumLanguageIds.ENGLISH, EnumLanguageIds.RUSSIAN];
+
+const CategoryNamesSchema = new Schema<ICategoryNames>(
+    Object.fromEntries(LANGUAGE_IDS.map(id => [id, {type: String, trim: true, maxlength: 200}])),
+    {_id: false}
+);
+
+const CategorySchema = new Schema<ICategory>({
+  categoryId: {type: Number, required: true, unique: true},
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+    // all-digit slugs would be read as a categoryId in /categories/:id
+    match: [/^(?!\d+$)[a-z0-9]+(?:-[a-z0-9]+)*$/, 'slug may only contain lowercase letters, digits and single dashes, and cannot be only digits'],
+  },
+  parentId: {type: Number, default: null, index: true},
+  names: {
+    type: CategoryNamesSchema,
+    required: true,
+    validate: {
+      validator: (names: ICategoryNames) => LANGUAGE_IDS.some(id => Boolean(names?.[id])),
+      message: 'A category needs a name in at least one language'
+    },
+  },
+  status: {type: Boolean, default: true},
+}, {timestamps: true});
+
+CategorySchema.plugin(auditPlugin, {entityType: 'Category'});
+
+export default mongoose.model<ICategory>('Category', CategorySchema);
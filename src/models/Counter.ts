@@ -0,0 +1,16 @@
+import mongoose, {Schema, Document} from 'mongoose';
+
+// Named sequences for numeric ids (see services/counters)
+export interface ICounter extends Omit<Document, '_id'> {
+  // sequence name, e.g. 'infoCardId'
+  _id: string;
+  // last value handed out
+  seq: number;
+}
+
+const CounterSchema = new Schema<ICounter>({
+  _id: {type: String, required: true},
+  seq: {type: Number, required: true, default: 0},
+}, {versionKey: false});
+
+export default mongoose.model<ICounter>('Counter', CounterSchema);
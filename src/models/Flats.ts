@@ -1,21 +1,10 @@
 import mongoose, {Schema, Document} from 'mongoose';
+import {IImage, ImageSchema} from './Image';
+import {auditPlugin} from './plugins/audit';
 
 type Currency = "GEL" | "USD" | "EUR";
 
-export interface IFlatImage {
-  _id?: mongoose.Types.ObjectId;
-  url: string;
-  filename: string;
-  size: number;
-  contentType: string;
-  createdAt?: Date;
-  storage?: 'local' | 'firebase' | 'cloudinary';
-  localUrl?: string;
-  bucket?: string;
-  path?: string;
-  publicUrl?: string;
-  cloudinaryPublicId?: string;
-}
+export type IFlatImage = IImage;
 
 export interface Address {
   street: string;
@@ -52,25 +41,13 @@ const FlatSchema: Schema = new Schema({
     enum: ["GEL", "USD", "EUR"],
     default: "GEL"
   },
-  images: [
-    new Schema(
-      {
-        url: { type: String, required: true },
-        filename: { type: String, required: true },
-        size: { type: Number, required: true },
-        contentType: { type: String, required: true },
-        createdAt: { type: Date, default: Date.now },
-        storage: { type: String, enum: ['local', 'firebase', 'cloudinary'], default: 'local' },
-        localUrl: { type: String },
-        bucket: { type: String },
-        path: { type: String },
-        publicUrl: { type: String },
-        cloudinaryPublicId: { type: String },
-      },
-      { _id: true, id: false }
-    )
-  ],
+  images: [ImageSchema],
 });
 
+// data exports look up the images a user uploaded
+FlatSchema.index({'images.uploadedBy': 1});
+
+FlatSchema.plugin(auditPlugin, {entityType: 'Flat'});
+
 const Flat = mongoose.model<IFlat>('Flat', FlatSchema);
 export default Flat;
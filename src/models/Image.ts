@@ -0,0 +1,38 @@
+import mongoose, {Schema} from 'mongoose';
+
+// Metadata of an uploaded image, embedded wherever a document has pictures
+// (flat images, user avatars). Not a collection of its own.
+export interface IImage {
+  _id?: mongoose.Types.ObjectId;
+  url: string;
+  filename: string;
+  size: number;
+  contentType: string;
+  createdAt?: Date;
+  storage?: 'local' | 'firebase' | 'cloudinary';
+  localUrl?: string;
+  bucket?: string;
+  path?: string;
+  publicUrl?: string;
+  cloudinaryPublicId?: string;
+  // user who uploaded the image, for data exports
+  uploadedBy?: mongoose.Types.ObjectId;
+}
+
+export const ImageSchema = new Schema<IImage>(
+  {
+    url: { type: String, required: true },
+    filename: { type: String, required: true },
+    size: { type: Number, required: true },
+    contentType: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now },
+    storage: { type: String, enum: ['local', 'firebase', 'cloudinary'], default: 'local' },
+    localUrl: { type: String },
+    bucket: { type: String },
+    path: { type: String },
+    publicUrl: { type: String },
+    cloudinaryPublicId: { type: String },
+    uploadedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  { _id: true, id: false }
+);
@@ -0,0 +1,36 @@
+import mongoose, {Schema, Document, Types} from 'mongoose';
+
+export enum EnumImpersonationEvent {
+  START = 'start',
+  REQUEST = 'request',
+}
+
+// One entry when an admin starts impersonating a user and one per request made with the token
+export interface IImpersonationLog extends Document {
+  event: EnumImpersonationEvent;
+  // the admin
+  actorId: Types.ObjectId;
+  // the impersonated user
+  userId: Types.ObjectId;
+  method?: string;
+  path?: string;
+  status?: number;
+  ip?: string;
+  userAgent?: string;
+  reason?: string;
+  createdAt?: Date;
+}
+
+const ImpersonationLogSchema = new Schema<IImpersonationLog>({
+  event: {type: String, enum: Object.values(EnumImpersonationEvent), required: true},
+  actorId: {type: Schema.Types.ObjectId, ref: 'User', required: true, index: true},
+  userId: {type: Schema.Types.ObjectId, ref: 'User', required: true, index: true},
+  method: {type: String},
+  path: {type: String},
+  status: {type: Number},
+  ip: {type: String},
+  userAgent: {type: String},
+  reason: {type: String, trim: true, maxlength: 500},
+}, {timestamps: {createdAt: true, updatedAt: false}});
+
+export default mongoose.model<IImpersonationLog>('ImpersonationLog', ImpersonationLogSchema);
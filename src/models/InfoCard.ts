@@ -1,4 +1,6 @@
 import mongoose, {Schema, Document} from 'mongoose';
+import {auditPlugin} from './plugins/audit';
+import {IImage, ImageSchema} from './Image';
 
 export interface IInfoCardDetail {
   infoCardDetailId?: number;
@@ -6,13 +8,30 @@ export interface IInfoCardDetail {
   languageId?: number;
   title?: string;
   subTitle?: string;
+  // a disabled language falls back to another language in public responses
   status?: boolean;
 }
 
+export interface IInfoCardImageAlt {
+  languageId: number;
+  text: string;
+}
+
+// Uploaded through PUT /info-cards/:id/image; replaces the free-form imageData
+// (see scripts/migrateInfoCardImages)
+export interface IInfoCardImage extends IImage {
+  alt?: IInfoCardImageAlt[];
+}
+
 export interface IInfoCard extends Document {
   infoCardId: number;
   status?: boolean;
-  imageData?: any;
+  // public lists only show the card between these (either may be open)
+  publishFrom?: Date | null;
+  publishUntil?: Date | null;
+  // ascending order on the homepage, see PUT /info-cards/order
+  position: number;
+  image?: IInfoCardImage | null;
   categoryIdList?: number[];
   details?: IInfoCardDetail[];
   createdAt?: Date;
@@ -28,13 +47,47 @@ const InfoCardDetailSchema = new Schema<IInfoCardDetail>({
   status: {type: Boolean, default: true},
 });
 
+// shared image fields plus alt text per language
+const InfoCardImageSchema = new Schema<IInfoCardImage>({
+  ...ImageSchema.obj,
+  alt: [new Schema<IInfoCardImageAlt>({
+    languageId: {type: Number, required: true},
+    text: {type: String, required: true, trim: true, maxlength: 300},
+  }, {_id: false})],
+}, {_id: true, id: false});
+
 const InfoCardSchema = new Schema<IInfoCard>({
   infoCardId: {type: Number, required: true, unique: true},
   status: {type: Boolean, default: true},
-  imageData: {type: Schema.Types.Mixed},
+  publishFrom: {type: Date, default: null},
+  publishUntil: {
+    type: Date,
+    default: null,
+    validate: {
+      validator: function (this: IInfoCard, until: Date | null) {
+        return !until || !this.publishFrom || until > this.publishFrom;
+      },
+      message: 'publishUntil must be after publishFrom'
+    },
+  },
+  position: {type: Number, default: 0},
+  image: {type: InfoCardImageSchema, default: null},
   categoryIdList: [{type: Number}],
-  details: [InfoCardDetailSchema],
+  details: {
+    type: [InfoCardDetailSchema],
+    validate: {
+      validator: function (details: IInfoCardDetail[]) {
+        const languageIds = details.map(d => d.languageId);
+        return new Set(languageIds).size === languageIds.length;
+      },
+      message: 'Each language can only appear once in details'
+    },
+  },
 }, {timestamps: true});
 
+InfoCardSchema.index({status: 1, position: 1});
+
+InfoCardSchema.plugin(auditPlugin, {entityType: 'InfoCard'});
+
 export default mongoose.model<IInfoCard>('InfoCard', InfoCardSchema);
 
@@ -22,6 +22,13 @@ export enum EnumLanguages {
 
 export const LANGUAGES_TIPS = `correct list for georgian is :${EnumLanguageIds.GEORGIAN}, english is :${EnumLanguageIds.ENGLISH}, russian is :${EnumLanguageIds.RUSSIAN}`
 
+// 'ka' -> 1, 'en' -> 2, 'ru' -> 3; null for unknown labels
+export function languageIdFromLabel(label: string): EnumLanguageIds | null {
+  const key = (Object.keys(EnumLanguageLabels) as Array<keyof typeof EnumLanguageLabels>)
+      .find(name => EnumLanguageLabels[name] === label.toLowerCase().trim());
+  return key ? EnumLanguageIds[key] : null;
+}
+
 
 // Arrays for Mongoose enum validation
 const LANGUAGE_IDS = [1, 2, 3] as const;
@@ -0,0 +1,21 @@
+import mongoose, {Schema, Document} from 'mongoose';
+
+// Failed login counter, keyed by `email:<address>` or `ip:<address>`
+export interface ILoginAttempt extends Document {
+  key: string;
+  failures: number;
+  lockedUntil?: Date | null;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const LoginAttemptSchema = new Schema<ILoginAttempt>({
+  key: {type: String, required: true, unique: true},
+  failures: {type: Number, default: 0},
+  lockedUntil: {type: Date, default: null},
+  // counters are forgotten after a quiet period
+  expiresAt: {type: Date, required: true, index: {expires: 0}},
+}, {timestamps: true});
+
+export default mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
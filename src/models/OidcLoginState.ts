@@ -0,0 +1,23 @@
+import mongoose, {Schema, Document} from 'mongoose';
+
+// Pending authorization-code login, created at /authorize and consumed at /callback
+export interface IOidcLoginState extends Document {
+  state: string;
+  provider: string;
+  nonce: string;
+  // PKCE verifier, only its S256 challenge is sent to the provider
+  codeVerifier: string;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const OidcLoginStateSchema = new Schema<IOidcLoginState>({
+  state: {type: String, required: true, unique: true},
+  provider: {type: String, required: true},
+  nonce: {type: String, required: true},
+  codeVerifier: {type: String, required: true},
+  expiresAt: {type: Date, required: true, index: {expires: 0}},
+}, {timestamps: true});
+
+export default mongoose.model<IOidcLoginState>('OidcLoginState', OidcLoginStateSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import {auditPlugin} from './plugins/audit';
 
 export interface IProduct extends Document {
   price: number;
@@ -25,6 +26,8 @@ const ProductsSchema = new Schema<IProduct>(
   }
 );
 
+ProductsSchema.plugin(auditPlugin, {entityType: 'Products'});
+
 const Products: Model<IProduct> = mongoose.models.Products || mongoose.model<IProduct>('Products', ProductsSchema);
 
 export default Products;
@@ -1,4 +1,5 @@
 import mongoose, {Schema, Document} from 'mongoose';
+import {auditPlugin} from './plugins/audit';
 
 export interface IQuestionTranslation {
   // Use numeric languageId (1,2,3) not an ObjectId reference
@@ -55,5 +56,6 @@ const QuestionSchema = new Schema<IQuestion>({
   timestamps: true
 });
 
+QuestionSchema.plugin(auditPlugin, {entityType: 'Question'});
 
 export default mongoose.model<IQuestion>('Question', QuestionSchema);
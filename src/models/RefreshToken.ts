@@ -0,0 +1,26 @@
+import mongoose, {Schema, Document, Types} from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  userId: Types.ObjectId;
+  // sha256 of the issued token, the raw token is never stored
+  tokenHash: string;
+  // all tokens rotated from the same login share one family id
+  familyId: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+  userId: {type: Schema.Types.ObjectId, ref: 'User', required: true, index: true},
+  tokenHash: {type: String, required: true, unique: true},
+  familyId: {type: String, required: true, index: true},
+  // expired tokens are removed by mongo once the JWT itself can no longer verify
+  expiresAt: {type: Date, required: true, index: {expires: 0}},
+  usedAt: {type: Date, default: null},
+  revokedAt: {type: Date, default: null},
+}, {timestamps: true});
+
+export default mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
@@ -0,0 +1,28 @@
+import mongoose, {Schema, Document, Types} from 'mongoose';
+
+// Device metadata for one login. Whether the session is still active is derived
+// from its refresh token family (see services/sessions.ts), not stored here.
+export interface ISession extends Document {
+  userId: Types.ObjectId;
+  familyId: string;
+  userAgent?: string;
+  ip?: string;
+  lastIp?: string;
+  lastRefreshedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const SESSION_RETENTION_DAYS = Number(process.env.SESSION_RETENTION_DAYS || 90);
+
+const SessionSchema = new Schema<ISession>({
+  userId: {type: Schema.Types.ObjectId, ref: 'User', required: true, index: true},
+  familyId: {type: String, required: true, unique: true},
+  userAgent: {type: String},
+  ip: {type: String},
+  lastIp: {type: String},
+  // metadata of sessions idle for longer than the retention period is dropped
+  lastRefreshedAt: {type: Date, default: Date.now, index: {expires: SESSION_RETENTION_DAYS * 24 * 60 * 60}},
+}, {timestamps: true});
+
+export default mongoose.model<ISession>('Session', SessionSchema);
@@ -1,5 +1,26 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import {PASSWORD_POLICY} from '../helpers/passwordPolicy';
+import {IImage, ImageSchema} from './Image';
+import {auditPlugin} from './plugins/audit';
+
+export enum EnumRoles {
+  ADMIN = 'admin',
+  EDITOR = 'editor',
+  AGENT = 'agent',
+  USER = 'user'
+}
+
+export const ROLES = ['admin', 'editor', 'agent', 'user'] as const;
+
+// Account at an external identity provider linked to a local user
+export interface IExternalIdentity {
+  provider: string;
+  // `sub` claim of the provider, stable per provider
+  subject: string;
+  email?: string;
+  linkedAt?: Date;
+}
 
 export interface IUser extends Document {
   age: number;
@@ -10,16 +31,58 @@ export interface IUser extends Document {
   birthDate: Date;
   address: string;
   password: string;
+  // bcrypt hashes of the most recent passwords, newest last (PASSWORD_HISTORY)
+  passwordHistory?: string[];
   createdAt?: Date;
   updatedAt?: Date;
   flats?: mongoose.Types.ObjectId[];
+  roles: EnumRoles[];
+  // undefined for accounts created before verification existed, those count as verified
+  emailVerified?: boolean;
+  emailVerifiedAt?: Date;
+  mfaEnabled?: boolean;
+  // set by an admin to force MFA regardless of roles
+  mfaRequired?: boolean;
+  mfaSecret?: string;
+  // secret waiting for the first valid code during enrollment
+  mfaPendingSecret?: string;
+  // sha256 hashes of unused recovery codes
+  mfaRecoveryCodes?: string[];
+  // last accepted TOTP time step, prevents replaying a code
+  mfaLastUsedStep?: number;
+  // embedded in tokens; incrementing it invalidates every token issued before
+  tokenVersion?: number;
+  identities?: IExternalIdentity[];
+  // soft deletion, the user is purged for good after USER_RETENTION_DAYS
+  deletedAt?: Date | null;
+  deletedBy?: mongoose.Types.ObjectId | null;
+  // personal data was erased on request, the document only remains as a reference
+  erasedAt?: Date;
+  avatar?: IImage | null;
+  // created by a bulk import; the user chooses a password through the invitation link
+  invitedAt?: Date | null;
+  invitedBy?: mongoose.Types.ObjectId | null;
+}
+
+// Never serialized, even when explicitly selected
+const SECRET_FIELDS = ['password', 'passwordHistory', 'mfaSecret', 'mfaPendingSecret', 'mfaRecoveryCodes', 'mfaLastUsedStep'];
+
+// Users created through an external identity provider have no local password and
+// the provider doesn't tell us age, birth date or address; erased users have neither
+function requiredForLocalAccounts(this: IUser): boolean {
+  return !this.identities?.length && !this.erasedAt;
+}
+
+// Invited users have no password until they accept the invitation
+function passwordRequired(this: IUser): boolean {
+  return requiredForLocalAccounts.call(this) && !this.invitedAt;
 }
 
 const UserSchema = new Schema<IUser>(
   {
     age: {
       type: Number,
-      required: true,
+      required: requiredForLocalAccounts,
       min: 0,
       max: 150,
     },
@@ -44,35 +107,113 @@ const UserSchema = new Schema<IUser>(
     },
     birthDate: {
       type: Date,
-      required: true,
+      required: requiredForLocalAccounts,
     },
     address: {
       type: String,
-      required: true,
+      required: requiredForLocalAccounts,
       trim: true,
     },
     password: {
       type: String,
-      required: true,
+      required: passwordRequired,
       minlength: 6,
       select: false,
     },
+    passwordHistory: {
+      type: [String],
+      select: false,
+      default: undefined,
+    },
     flats: [{
       type: Schema.Types.ObjectId,
       ref: 'Flat',
     }],
+    roles: {
+      type: [{type: String, enum: ROLES}],
+      default: [EnumRoles.USER],
+    },
+    // no default on purpose, see IUser.emailVerified
+    emailVerified: {
+      type: Boolean,
+    },
+    emailVerifiedAt: {
+      type: Date,
+    },
+    mfaEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    mfaRequired: {
+      type: Boolean,
+      default: false,
+    },
+    mfaSecret: {
+      type: String,
+      select: false,
+    },
+    mfaPendingSecret: {
+      type: String,
+      select: false,
+    },
+    mfaRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: undefined,
+    },
+    mfaLastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
+    identities: [new Schema<IExternalIdentity>(
+      {
+        provider: {type: String, required: true},
+        subject: {type: String, required: true},
+        email: {type: String},
+        linkedAt: {type: Date, default: Date.now},
+      },
+      {_id: false, id: false}
+    )],
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    erasedAt: {
+      type: Date,
+    },
+    avatar: {
+      type: ImageSchema,
+      default: null,
+    },
+    invitedAt: {
+      type: Date,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     timestamps: true,
     toJSON: {
       transform(_doc, ret) {
-        Reflect.deleteProperty(ret as any, 'password');
+        SECRET_FIELDS.forEach(field => Reflect.deleteProperty(ret as any, field));
         return ret;
       },
     },
     toObject: {
       transform(_doc, ret) {
-        Reflect.deleteProperty(ret as any, 'password');
+        SECRET_FIELDS.forEach(field => Reflect.deleteProperty(ret as any, field));
         return ret;
       },
     },
@@ -80,16 +221,60 @@ const UserSchema = new Schema<IUser>(
 );
 
 
-// Hash password before saving when modified
+// Hash password before saving when modified, a changed password also invalidates older tokens
 UserSchema.pre('save', async function (next) {
   const user = this as typeof this & { isModified: (path?: string) => boolean };
   if (user.isModified('password')) {
     const saltRounds = 10;
     user.password = await bcrypt.hash(user.password, saltRounds);
+    if (!user.isNew) user.tokenVersion = (user.tokenVersion ?? 0) + 1;
+    user.$locals.newPasswordHash = user.password;
   }
   next();
 });
 
+// Remembers the new hash for the reuse check. Done with $push/$slice after the save
+// because passwordHistory is usually not selected on the document being saved.
+UserSchema.post('save', async function (doc) {
+  const hash = doc.$locals.newPasswordHash as string | undefined;
+  if (!hash || PASSWORD_POLICY.historySize === 0) return;
+  delete doc.$locals.newPasswordHash;
+
+  await User.updateOne(
+      {_id: doc._id},
+      {$push: {passwordHistory: {$each: [hash], $slice: -PASSWORD_POLICY.historySize}}}
+  );
+});
+
+// Soft-deleted users are invisible to every find/count unless the filter mentions
+// deletedAt itself or the query sets the withDeleted option:
+//   User.find({deletedAt: {$ne: null}})            only deleted users
+//   User.find().setOptions({withDeleted: true})    everyone
+UserSchema.pre(['find', 'findOne', 'findOneAndUpdate', 'countDocuments'], function () {
+  const options = this.getOptions() as Record<string, any>;
+  const withDeleted = options.withDeleted;
+  // not a driver option, don't pass it on
+  delete options.withDeleted;
+  if (withDeleted) return;
+
+  if (!Object.prototype.hasOwnProperty.call(this.getFilter(), 'deletedAt')) {
+    this.where({deletedAt: null});
+  }
+});
+
+// one external account can only ever be linked to a single user
+UserSchema.index(
+  {'identities.provider': 1, 'identities.subject': 1},
+  {unique: true, partialFilterExpression: {'identities.subject': {$exists: true}}}
+);
+
+// after the hooks above, so the soft-delete filter is already applied when the plugin reads matched users
+UserSchema.plugin(auditPlugin, {
+  entityType: 'User',
+  redact: ['password', 'mfaSecret', 'mfaPendingSecret', 'mfaRecoveryCodes'],
+  ignore: ['passwordHistory', 'mfaLastUsedStep'],
+});
+
 const User: Model<IUser> = mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
 
 export default User;
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import {auditPlugin} from './plugins/audit';
 
 export interface IUserFlat extends Document {
   userId: Types.ObjectId;
@@ -10,6 +11,8 @@ const UserFlatSchema: Schema = new Schema({
   flatId: { type: Schema.Types.ObjectId, ref: 'Flat', required: true }
 });
 
+UserFlatSchema.plugin(auditPlugin, {entityType: 'UserFlat'});
+
 const UserFlat = mongoose.model<IUserFlat>('UserFlat', UserFlatSchema);
 export default UserFlat;
 
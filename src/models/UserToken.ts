@@ -0,0 +1,31 @@
+import mongoose, {Schema, Document, Types} from 'mongoose';
+
+export enum EnumUserTokenPurpose {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+  INVITATION = 'invitation'
+}
+
+const USER_TOKEN_PURPOSES = ['password_reset', 'email_verification', 'invitation'] as const;
+
+// Single-use tokens sent to the user out of band (e-mail links)
+export interface IUserToken extends Document {
+  userId: Types.ObjectId;
+  purpose: EnumUserTokenPurpose;
+  // sha256 of the token sent to the user, the raw token is never stored
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const UserTokenSchema = new Schema<IUserToken>({
+  userId: {type: Schema.Types.ObjectId, ref: 'User', required: true, index: true},
+  purpose: {type: String, required: true, enum: USER_TOKEN_PURPOSES},
+  tokenHash: {type: String, required: true, unique: true},
+  expiresAt: {type: Date, required: true, index: {expires: 0}},
+  usedAt: {type: Date, default: null},
+}, {timestamps: true});
+
+export default mongoose.model<IUserToken>('UserToken', UserTokenSchema);
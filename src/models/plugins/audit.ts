@@ -0,0 +1,169 @@
+import {Query, Schema, Types} from 'mongoose';
+import AuditLog, {EnumAuditAction} from '../AuditLog';
+import {getRequestContext} from '../../services/requestContext';
+
+export interface AuditOptions {
+  // model name recorded as entityType
+  entityType: string;
+  // recorded as changed, but the values are replaced by REDACTED (hashes, secrets)
+  redact?: readonly string[];
+  // never recorded, changes to only these fields don't create an entry
+  ignore?: readonly string[];
+}
+
+const REDACTED = '[redacted]';
+// bookkeeping fields that change with every write
+const ALWAYS_IGNORED = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+const UPDATE_OPS = ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'] as const;
+const DELETE_OPS = ['deleteOne', 'deleteMany', 'findOneAndDelete'] as const;
+const MULTI_OPS = ['updateMany', 'deleteMany'];
+
+type Snapshot = Record<string, any>;
+
+interface AuditEntry {
+  action: EnumAuditAction;
+  entityId: Types.ObjectId;
+  before?: Snapshot | null;
+  after?: Snapshot | null;
+}
+
+/**
+ * Records every create, update and delete of the model in AuditLog, with the
+ * acting user and request taken from the request context. Covers document
+ * saves, insertMany and update/delete queries. Query writes read the affected
+ * documents before and after the write straight from the collection, so they
+ * cost an extra read per write.
+ */
+export function auditPlugin(schema: Schema, options: AuditOptions): void {
+  const ignored = new Set([...ALWAYS_IGNORED, ...(options.ignore || [])]);
+  const redacted = new Set(options.redact || []);
+
+  const clean = (doc: Snapshot): Snapshot => Object.fromEntries(Object.entries(doc)
+      .filter(([key]) => !ignored.has(key))
+      .map(([key, value]) => [key, redacted.has(key) && value != null ? REDACTED : value]));
+
+  // only the fields that differ; null when nothing relevant changed
+  const diff = (
+      before: Snapshot,
+      after: Snapshot,
+      keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  ): { before: Snapshot; after: Snapshot } | null => {
+    const changed = [...keys].filter(key => !ignored.has(key) && !isSameValue(before[key], after[key]));
+    if (!changed.length) return null;
+
+    const pick = (doc: Snapshot) => clean(Object.fromEntries(changed.map(key => [key, doc[key] ?? null])));
+    return {before: pick(before), after: pick(after)};
+  };
+
+  const record = (entries: AuditEntry[]) => {
+    if (!entries.length) return;
+    const context = getRequestContext();
+    const base = {
+      entityType: options.entityType,
+      actorId: context?.actorId || null,
+      impersonatorId: context?.impersonatorId || null,
+      apiKeyId: context?.apiKeyId || null,
+      ip: context?.ip,
+      userAgent: context?.userAgent,
+      requestId: context?.requestId,
+      method: context?.method,
+      path: context?.path,
+    };
+    // the change itself is already written, a failing audit write must not turn it into an error
+    return AuditLog.insertMany(entries.map(entry => ({...base, ...entry})))
+        .then(() => void 0)
+        .catch(err => console.error(`Failed to write audit log for ${options.entityType}:`, err));
+  };
+
+  // Document saves (create, doc.save())
+  schema.pre('save', async function () {
+    this.$locals.auditIsNew = this.isNew;
+    if (!this.isNew && this.isModified()) {
+      this.$locals.auditBefore = await this.collection.findOne({_id: this._id as Types.ObjectId});
+      // modified state is reset by the time post('save') runs
+      this.$locals.auditModified = this.modifiedPaths().map(path => path.split('.')[0]);
+    }
+  });
+
+  schema.post('save', async function () {
+    const isNew = this.$locals.auditIsNew;
+    const before = this.$locals.auditBefore as Snapshot | null | undefined;
+    const modified = (this.$locals.auditModified as string[] | undefined) || [];
+    delete this.$locals.auditIsNew;
+    delete this.$locals.auditBefore;
+    delete this.$locals.auditModified;
+
+    const after = this.toObject({depopulate: true, virtuals: false, transform: false});
+    if (isNew) {
+      await record([{action: EnumAuditAction.CREATE, entityId: this._id as Types.ObjectId, after: clean(after)}]);
+      return;
+    }
+    // fields left out by the query's projection are missing from the document, not removed
+    const keys = new Set([...Object.keys(after), ...modified]);
+    const changes = before && diff(before, after, keys);
+    if (changes) await record([{action: EnumAuditAction.UPDATE, entityId: this._id as Types.ObjectId, ...changes}]);
+  });
+
+  schema.post('insertMany', async function (docs: any[]) {
+    await record(docs.map(doc => ({
+      action: EnumAuditAction.CREATE,
+      entityId: doc._id,
+      after: clean(typeof doc.toObject === 'function' ? doc.toObject({depopulate: true, transform: false}) : doc),
+    })));
+  });
+
+  // Query writes: remember the matched documents before the write
+  const matchedBefore = new WeakMap<Query<any, any>, Snapshot[]>();
+
+  schema.pre([...UPDATE_OPS, ...DELETE_OPS], {document: false, query: true}, async function (this: Query<any, any>) {
+    const filter = this.cast(this.model, this.getFilter());
+    const sort = this.getOptions().sort;
+    let cursor = this.model.collection.find(filter);
+    if (sort) cursor = cursor.sort(sort);
+    if (!MULTI_OPS.includes((this as any).op)) cursor = cursor.limit(1);
+    matchedBefore.set(this, await cursor.toArray());
+  });
+
+  schema.post([...UPDATE_OPS], {document: false, query: true}, async function (this: Query<any, any>, result: any) {
+    const before = matchedBefore.get(this) || [];
+    matchedBefore.delete(this);
+
+    const ids: Types.ObjectId[] = before.map(doc => doc._id);
+    // upserts: the created document's id comes from the result
+    const upsertedId = result?.upsertedId ?? (!before.length && result?._id);
+    if (upsertedId) ids.push(upsertedId);
+    if (!ids.length) return;
+
+    const afterDocs = await this.model.collection.find({_id: {$in: ids}}).toArray();
+    const beforeById = new Map(before.map(doc => [String(doc._id), doc]));
+
+    await record(afterDocs.flatMap((after): AuditEntry[] => {
+      const previous = beforeById.get(String(after._id));
+      if (!previous) return [{action: EnumAuditAction.CREATE, entityId: after._id, after: clean(after)}];
+      const changes = diff(previous, after);
+      return changes ? [{action: EnumAuditAction.UPDATE, entityId: after._id, ...changes}] : [];
+    }));
+  });
+
+  schema.post([...DELETE_OPS], {document: false, query: true}, async function (this: Query<any, any>) {
+    const before = matchedBefore.get(this) || [];
+    matchedBefore.delete(this);
+    if (!before.length) return;
+
+    const remaining = await this.model.collection
+        .find({_id: {$in: before.map(doc => doc._id)}}, {projection: {_id: 1}})
+        .toArray();
+    const remainingIds = new Set(remaining.map(doc => String(doc._id)));
+
+    await record(before
+        .filter(doc => !remainingIds.has(String(doc._id)))
+        .map(doc => ({action: EnumAuditAction.DELETE, entityId: doc._id, before: clean(doc)})));
+  });
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  // ObjectIds, dates, subdocuments and arrays compare by their serialized form
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
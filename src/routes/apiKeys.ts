@@ -0,0 +1,202 @@
+import {Router, Response} from 'express';
+import mongoose from 'mongoose';
+import ApiKey from '../models/ApiKey';
+import authMiddleware, {AuthRequest, requireSession} from '../middleware/auth';
+import {hasPermission, Permission, PERMISSIONS} from '../helpers/permissions';
+import {generateApiKey} from '../services/apiKeys';
+import {paginate, PaginationError, parsePagination} from '../helpers/pagination';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /api-keys:
+ *   post:
+ *     summary: Create an API key for service-to-service access
+ *     description: >
+ *       The key is only returned in this response. Send it as `X-API-Key: <key>` or
+ *       `Authorization: ApiKey <key>`. Scopes must be permissions the creator holds.
+ *     tags:
+ *       - API Keys
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, scopes]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: listings-import
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["flats:write"]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       '201':
+ *         description: Created
+ *       '400':
+ *         description: Validation error
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Scope not allowed for the creator
+ */
+router.post('/api-keys', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const {name, scopes, expiresAt: rawExpiresAt} = req.body || {};
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({error: 'name is required'});
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return res.status(400).json({error: 'scopes must be a non-empty array'});
+    }
+
+    const unknown = scopes.filter((s: any) => !(PERMISSIONS as readonly string[]).includes(s));
+    if (unknown.length) {
+      return res.status(400).json({error: `Unknown scopes: ${unknown.join(', ')}`, allowed: PERMISSIONS});
+    }
+
+    // A key can never do more than the person who created it
+    const notHeld = (scopes as Permission[]).filter(s => !hasPermission(req.user!.roles, s));
+    if (notHeld.length) {
+      return res.status(403).json({error: `You do not hold these permissions: ${notHeld.join(', ')}`});
+    }
+
+    let expiresAt: Date | null = null;
+    if (rawExpiresAt != null) {
+      expiresAt = new Date(rawExpiresAt);
+      if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({error: 'expiresAt must be a future date'});
+      }
+    }
+
+    const {key, prefix, keyHash} = generateApiKey();
+    const doc = await ApiKey.create({
+      name: name.trim(),
+      prefix,
+      keyHash,
+      scopes: Array.from(new Set(scopes)),
+      ownerId: req.user!.id,
+      expiresAt,
+    });
+
+    const sanitized: any = doc.toObject();
+    delete sanitized.keyHash;
+    res.status(201).json({...sanitized, key});
+  } catch (err: any) {
+    res.status(400).json({error: err.message});
+  }
+});
+
+/**
+ * @openapi
+ * /api-keys:
+ *   get:
+ *     summary: List API keys of the current user (admins may pass ownerId or all=true)
+ *     tags:
+ *       - API Keys
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: ownerId
+ *         schema:
+ *           type: string
+ *         description: Admin only, list keys of another user
+ *       - in: query
+ *         name: all
+ *         schema:
+ *           type: boolean
+ *         description: Admin only, list keys of every user
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
+ *     responses:
+ *       '200':
+ *         description: OK
+ *       '400':
+ *         description: Invalid ownerId or pagination parameters
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+router.get('/api-keys', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const {ownerId, all} = req.query as Record<string, string>;
+    const pageRequest = parsePagination(req.query, {sortFields: ['createdAt'], defaultSort: '-createdAt'});
+
+    const filter: Record<string, any> = {ownerId: req.user!.id};
+    if (ownerId || all === 'true') {
+      if (!hasPermission(req.user!.roles, 'apiKeys:admin')) {
+        return res.status(403).json({error: 'Forbidden: missing permission apiKeys:admin'});
+      }
+      if (all === 'true') {
+        delete filter.ownerId;
+      } else {
+        if (!mongoose.isValidObjectId(ownerId)) return res.status(400).json({error: 'Invalid ownerId'});
+        filter.ownerId = ownerId;
+      }
+    }
+
+    const {items, total, ...page} = await paginate(ApiKey, filter, pageRequest, {project: query => query.lean()});
+    res.json({items, count: total, ...page});
+  } catch (err: any) {
+    if (err instanceof PaginationError) return res.status(400).json({error: err.message});
+    res.status(500).json({error: err.message});
+  }
+});
+
+/**
+ * @openapi
+ * /api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key (own keys, or any key for admins)
+ *     tags:
+ *       - API Keys
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '200':
+ *         description: Revoked
+ *       '400':
+ *         description: Invalid id
+ *       '401':
+ *         description: Unauthorized
+ *       '404':
+ *         description: Not found
+ */
+router.delete('/api-keys/:id', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid API key id'});
+
+    const filter: Record<string, any> = {_id: id, revokedAt: null};
+    // other users' keys are reported as not found rather than forbidden
+    if (!hasPermission(req.user!.roles, 'apiKeys:admin')) filter.ownerId = req.user!.id;
+
+    const apiKey = await ApiKey.findOneAndUpdate(filter, {revokedAt: new Date()}, {new: true});
+    if (!apiKey) return res.status(404).json({error: 'API key not found'});
+
+    res.json({message: 'Revoked'});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+export default router;
@@ -0,0 +1,113 @@
+import {Router, Response} from 'express';
+import mongoose from 'mongoose';
+import AuditLog, {AUDITED_ENTITIES, EnumAuditAction} from '../models/AuditLog';
+import authMiddleware, {AuthRequest, requirePermission} from '../middleware/auth';
+import {paginate, PaginationError, parsePagination} from '../helpers/pagination';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /audit:
+ *   get:
+ *     summary: List audit log entries, newest first (admin only)
+ *     description: >
+ *       Every create, update and delete of users, flats, flat assignments, questions, info cards and products.
+ *       Updates only contain the changed fields; secrets are shown as "[redacted]".
+ *     tags:
+ *       - Audit
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [User, Flat, UserFlat, Question, InfoCard, Products, Category]
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete]
+ *       - in: query
+ *         name: requestId
+ *         schema:
+ *           type: string
+ *         description: All changes made by one request (see the X-Request-Id response header)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
+ *     responses:
+ *       '200':
+ *         description: OK
+ *       '400':
+ *         description: Invalid filter or pagination parameters
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+router.get('/audit', authMiddleware, requirePermission('audit:read'), async (req: AuthRequest, res: Response) => {
+  try {
+    const {entityType, entityId, actorId, action, requestId, from, to} = req.query as Record<string, string>;
+    const pageRequest = parsePagination(req.query, {sortFields: ['createdAt'], defaultSort: '-createdAt'});
+
+    const filter: Record<string, any> = {};
+    if (entityType) {
+      if (!(AUDITED_ENTITIES as readonly string[]).includes(entityType)) {
+        return res.status(400).json({error: `entityType must be one of: ${AUDITED_ENTITIES.join(', ')}`});
+      }
+      filter.entityType = entityType;
+    }
+    if (entityId) {
+      if (!mongoose.isValidObjectId(entityId)) return res.status(400).json({error: 'Invalid entityId'});
+      filter.entityId = entityId;
+    }
+    if (actorId) {
+      if (!mongoose.isValidObjectId(actorId)) return res.status(400).json({error: 'Invalid actorId'});
+      filter.actorId = actorId;
+    }
+    if (action) {
+      if (!Object.values(EnumAuditAction).includes(action as EnumAuditAction)) {
+        return res.status(400).json({error: `action must be one of: ${Object.values(EnumAuditAction).join(', ')}`});
+      }
+      filter.action = action;
+    }
+    if (requestId) filter.requestId = String(requestId);
+
+    const range: Record<string, Date> = {};
+    for (const [key, value] of [['$gte', from], ['$lte', to]] as const) {
+      if (!value) continue;
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) return res.status(400).json({error: `Invalid date: ${value}`});
+      range[key] = date;
+    }
+    if (Object.keys(range).length) filter.createdAt = range;
+
+    const {items, total, ...page} = await paginate(AuditLog, filter, pageRequest, {project: query => query.lean()});
+    res.json({items, count: total, ...page});
+  } catch (err: any) {
+    if (err instanceof PaginationError) return res.status(400).json({error: err.message});
+    res.status(500).json({error: err.message});
+  }
+});
+
+export default router;
@@ -1,11 +1,58 @@
 import {Router, Request, Response} from 'express';
+import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
 import User, {IUser} from '../models/User';
-import {signAccessToken, signRefreshToken, verifyRefreshToken} from '../services/jwt';
-import {IUserForToken} from '../types/auth';
+import {
+  signAccessToken,
+  signRefreshToken,
+  consumeRefreshToken,
+  verifyRefreshToken,
+  revokeRefreshTokenFamily,
+  revokeAllRefreshTokens,
+  invalidateUserTokens,
+  RefreshTokenError,
+  RefreshTokenPayload,
+  signMfaChallengeToken,
+  verifyMfaChallengeToken,
+} from '../services/jwt';
+import authMiddleware, {AuthRequest, requirePermission, requireSession} from '../middleware/auth';
+import {issueTokens, toUserForToken} from '../services/authTokens';
+import {isRecentPassword, PASSWORD_POLICY, validatePassword} from '../helpers/passwordPolicy';
+import {validateUserProfile} from '../helpers/userValidation';
+import {hasPermission} from '../helpers/permissions';
+import {IMPERSONATION_TTL_SECONDS, startImpersonation} from '../services/impersonation';
+import {withAvatarUrls} from '../services/avatars';
+import {EnumUserTokenPurpose} from '../models/UserToken';
+import {issueUserToken, consumeUserToken, findUserTokenOwner} from '../services/userTokens';
+import {sendMail} from '../services/mail';
+import {
+  listActiveSessions,
+  requestMeta,
+  revokeOtherSessions,
+  revokeSession,
+  toSessionView,
+  touchSession,
+} from '../services/sessions';
+import {checkLoginAllowed, registerLoginFailure, registerLoginSuccess} from '../services/loginThrottle';
+import {EMAIL_VERIFICATION_POLICY, isEmailVerified, sendVerificationEmail} from '../services/emailVerification';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  isMfaRequired,
+  verifyTotp,
+  verifyUserMfaCode,
+} from '../services/mfa';
 
 const router = Router();
 
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const PASSWORD_RESET_TTL_MS = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 30) * 60 * 1000;
+
+const passwordReuseMessage = () => PASSWORD_POLICY.historySize > 1
+    ? `password must differ from your last ${PASSWORD_POLICY.historySize} passwords`
+    : 'password must differ from your current password';
+
 /**
  * @openapi
  * /auth/register:
@@ -37,7 +84,7 @@ const router = Router();
  *                 example: Doe
  *               password:
  *                 type: string
- *                 example: secret123
+ *                 example: Secret-123
  *               birthDate:
  *                 type: string
  *                 format: date
@@ -52,54 +99,31 @@ const router = Router();
 // Register: POST /auth/register
 router.post('/auth/register', async (req: Request, res: Response) => {
   try {
-    const {
-      email: rawEmail,
-      address,
-      age: rawAge,
-      firstName,
-      lastName,
-      password,
-      birthDate: rawBirthDate,
-    } = req.body as Record<string, any>;
+    const {password} = req.body as Record<string, any>;
 
     // Basic validation
-    const errors: string[] = [];
-    if (!rawEmail || typeof rawEmail !== 'string') errors.push('email is required');
-    if (!address || typeof address !== 'string') errors.push('address is required');
-    if (rawAge === undefined || rawAge === null) errors.push('age is required');
-    if (firstName === undefined || firstName === null || String(firstName).trim() === '') errors.push('firstName is required');
-    if (lastName === undefined || lastName === null || String(lastName).trim() === '') errors.push('lastName is required');
-    if (!password || typeof password !== 'string' || password.length < 6) errors.push('password is required and must be at least 6 characters');
-
-    const email = rawEmail ? String(rawEmail).toLowerCase().trim() : '';
-    const age = rawAge !== undefined ? Number(rawAge) : NaN;
-    const birthDate = rawBirthDate ? new Date(rawBirthDate) : null;
-
-    if (!email.match(/[^@\s]+@[^@\s]+\.[^@\s]+/)) errors.push('email is invalid');
-    if (Number.isNaN(age) || !Number.isFinite(age) || age < 0 || age > 150) errors.push('age must be a number between 0 and 150');
+    const {errors, value: profile} = validateUserProfile(req.body as Record<string, any>);
+    errors.push(...validatePassword(password, profile.email));
 
     if (errors.length) return res.status(400).json({errors});
 
     // Check for existing user
-    const existing = await User.findOne({email}).lean();
+    // soft-deleted accounts keep their email until they are purged
+    const existing = await User.findOne({email: profile.email}).setOptions({withDeleted: true}).lean();
     if (existing) return res.status(409).json({error: 'Email already registered'});
 
-    // If birthDate not provided, derive approximate birthDate as Jan 1 of (currentYear - age)
-    const computedBirthDate = birthDate || new Date(new Date().getFullYear() - Math.floor(age), 0, 1);
-
     // Create user instance and save (pre-save hook in model will hash the password)
     const user = new User({
-      email,
-      address: String(address).trim(),
-      age: Math.floor(age),
-      firstName: String(firstName).trim(),
-      lastName: String(lastName).trim(),
+      ...profile,
       password,
-      birthDate: computedBirthDate,
+      emailVerified: false,
     });
 
     await user.save();
 
+    // Registration succeeds even if the mail can't be sent, the user can ask for a new link
+    await sendVerificationEmail(user).catch(err => console.error('Failed to send verification email:', err));
+
     const sanitized = user.toObject(); // transforms in schema remove password
     res.status(201).json(sanitized);
   } catch (err: any) {
@@ -113,6 +137,10 @@ router.post('/auth/register', async (req: Request, res: Response) => {
  * /auth/login:
  *   post:
  *     summary: Login and receive access and refresh tokens
+ *     description: >
+ *       When the account has MFA enabled the response is `{mfaRequired: true, mfa_token}` instead of tokens;
+ *       exchange it at /auth/login/mfa. When MFA is required but not yet enrolled, the tokens only carry the
+ *       `user` role and the response contains `mfaEnrollmentRequired: true`.
  *     tags:
  *       - Auth
  *     requestBody:
@@ -135,6 +163,12 @@ router.post('/auth/register', async (req: Request, res: Response) => {
  *         description: Bad Request
  *       '401':
  *         description: Invalid credentials
+ *       '403':
+ *         description: Email address is not verified (when EMAIL_VERIFICATION_POLICY=block)
+ *       '423':
+ *         description: Account temporarily locked, see Retry-After header
+ *       '429':
+ *         description: Too many failed attempts from this IP, see Retry-After header
  */
 // Login: POST /auth/login
 router.post('/auth/login', async (req: Request, res: Response) => {
@@ -145,35 +179,115 @@ router.post('/auth/login', async (req: Request, res: Response) => {
     }
 
     const email = String(rawEmail).toLowerCase().trim();
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
 
-    const user = await User.findOne({email}).select('+password firstName lastName age birthDate address createdAt email').lean();
-    console.log("user", user)
+    const throttle = await checkLoginAllowed(email, ip);
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfterSeconds));
+      return res.status(throttle.status).json({error: throttle.error, retryAfter: throttle.retryAfterSeconds});
+    }
+
+    const user = await User.findOne({email}).select('+password email roles emailVerified mfaEnabled mfaRequired tokenVersion').lean();
+
+    if (!user) {
+      await registerLoginFailure(email, ip);
+      return res.status(401).json({error: 'Invalid credentials'});
+    }
 
-    if (!user) return res.status(401).json({error: 'Invalid credentials'});
+    // accounts created through an external identity provider have no password
+    const match = Boolean(user.password) && await bcrypt.compare(password, user.password);
+    if (!match) {
+      await registerLoginFailure(email, ip);
+      return res.status(401).json({error: 'Invalid credentials'});
+    }
 
-    const match = await bcrypt.compare(password, user.password);
-    if (!match) return res.status(401).json({error: 'Invalid credentials'});
+    if (EMAIL_VERIFICATION_POLICY === 'block' && !isEmailVerified(user)) {
+      return res.status(403).json({error: 'Email address is not verified'});
+    }
 
-    const userForToken: IUserForToken = {
-      id: String(user._id),
-      password: user.password,
-      age: user.age,
-      address: user.address,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-    };
+    // Second step required: the failed-attempt counter is only cleared once the code is accepted
+    if (user.mfaEnabled) {
+      return res.status(200).json({mfaRequired: true, mfa_token: signMfaChallengeToken(String(user._id))});
+    }
 
-    const token = signAccessToken(userForToken);
-    const refresh_token = signRefreshToken(userForToken);
+    await registerLoginSuccess(email);
 
-    return res.status(200).json({token, refresh_token});
+    return res.status(200).json(await issueTokens(user as IUser, req));
   } catch (err: any) {
     console.log("errr", err)
     return res.status(500).json({error: err?.message || 'Internal server error'});
   }
 });
 
+/**
+ * @openapi
+ * /auth/login/mfa:
+ *   post:
+ *     summary: Second login step, exchange the MFA challenge token and a TOTP or recovery code for tokens
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mfa_token:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: 6-digit TOTP code or a recovery code
+ *     responses:
+ *       '200':
+ *         description: OK
+ *       '400':
+ *         description: Bad Request
+ *       '401':
+ *         description: Invalid challenge token or code
+ *       '423':
+ *         description: Account temporarily locked, see Retry-After header
+ *       '429':
+ *         description: Too many failed attempts from this IP, see Retry-After header
+ */
+// Login second factor: POST /auth/login/mfa
+router.post('/auth/login/mfa', async (req: Request, res: Response) => {
+  try {
+    const {mfa_token, code} = req.body as Record<string, any>;
+    if (!mfa_token || typeof mfa_token !== 'string' || !code || typeof code !== 'string') {
+      return res.status(400).json({error: 'mfa_token and code are required'});
+    }
+
+    let userId: string;
+    try {
+      userId = verifyMfaChallengeToken(mfa_token);
+    } catch (err) {
+      return res.status(401).json({error: 'Invalid or expired MFA challenge'});
+    }
+
+    const user = await User.findById(userId);
+    if (!user) return res.status(401).json({error: 'Invalid or expired MFA challenge'});
+
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
+    const throttle = await checkLoginAllowed(user.email, ip);
+    if (!throttle.allowed) {
+      res.set('Retry-After', String(throttle.retryAfterSeconds));
+      return res.status(throttle.status).json({error: throttle.error, retryAfter: throttle.retryAfterSeconds});
+    }
+
+    if (!(await verifyUserMfaCode(userId, code))) {
+      await registerLoginFailure(user.email, ip);
+      return res.status(401).json({error: 'Invalid MFA code'});
+    }
+
+    await registerLoginSuccess(user.email);
+
+    return res.status(200).json(await issueTokens(user, req));
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
 /**
  * @openapi
  * /auth/refresh:
@@ -196,7 +310,7 @@ router.post('/auth/login', async (req: Request, res: Response) => {
  *       '400':
  *         description: Bad Request
  *       '401':
- *         description: Invalid or expired refresh token
+ *         description: Invalid, expired, revoked or reused refresh token
  */
 // New: Refresh tokens - POST /auth/refresh
 router.post('/auth/refresh', async (req: Request, res: Response) => {
@@ -206,34 +320,33 @@ router.post('/auth/refresh', async (req: Request, res: Response) => {
       return res.status(400).json({error: 'refresh_token is required'});
     }
 
-    let payload: IUserForToken;
+    let payload: RefreshTokenPayload;
     try {
-      payload = verifyRefreshToken(refresh_token);
-
+      // one-time use: the presented token is marked used and can't be refreshed again
+      payload = await consumeRefreshToken(refresh_token);
     } catch (err) {
-      return res.status(401).json({error: 'Invalid or expired refresh token'});
+      if (err instanceof RefreshTokenError) return res.status(401).json({error: err.message});
+      throw err;
     }
 
-    const email = String(payload.email).toLowerCase().trim();
+    // Ensure the user still exists
+    const user = await User.findById(payload.id);
+    if (!user) {
+      await revokeRefreshTokenFamily(payload.fam);
+      return res.status(401).json({error: 'Invalid refresh token (user not found)'});
+    }
 
-    console.log("email",payload)
+    // Issued before a password change or sign-out-everywhere
+    if ((user.tokenVersion ?? 0) !== payload.tokenVersion) {
+      await revokeRefreshTokenFamily(payload.fam);
+      return res.status(401).json({error: 'Invalid or expired refresh token'});
+    }
 
-    // Ensure the user still exists
-    const user = await User.findOne({email});
-    if (!user) return res.status(401).json({error: 'Invalid refresh token (user not found)'});
-
-    const userForToken: IUserForToken = {
-      id: String(user._id),
-      password: user.password,
-      age: user.age,
-      address: user.address,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-    };
+    const userForToken = {...toUserForToken(user), sessionId: payload.fam};
 
     const newToken = signAccessToken(userForToken);
-    const newRefresh = signRefreshToken(userForToken);
+    const newRefresh = await signRefreshToken(userForToken, payload.fam);
+    await touchSession(user._id, payload.fam, requestMeta(req));
 
     return res.status(200).json({token: newToken, refresh_token: newRefresh});
   } catch (err: any) {
@@ -243,4 +356,882 @@ router.post('/auth/refresh', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @openapi
+ * /auth/logout:
+ *   post:
+ *     summary: Revoke the given refresh token and every token rotated from the same login
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *     responses:
+ *       '200':
+ *         description: Logged out
+ *       '400':
+ *         description: Bad Request
+ *       '401':
+ *         description: Invalid or expired refresh token
+ */
+// Logout (current session): POST /auth/logout
+router.post('/auth/logout', async (req: Request, res: Response) => {
+  try {
+    const {refresh_token} = req.body as { refresh_token?: unknown };
+    if (!refresh_token || typeof refresh_token !== 'string') {
+      return res.status(400).json({error: 'refresh_token is required'});
+    }
+
+    let payload: RefreshTokenPayload;
+    try {
+      payload = await verifyRefreshToken(refresh_token);
+    } catch (err) {
+      if (err instanceof RefreshTokenError) return res.status(401).json({error: err.message});
+      throw err;
+    }
+
+    await revokeRefreshTokenFamily(payload.fam);
+
+    return res.status(200).json({message: 'Logged out'});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/logout-all:
+ *   post:
+ *     summary: Revoke every access and refresh token of the current user (all devices)
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Logged out everywhere
+ *       '401':
+ *         description: Unauthorized
+ */
+// Logout (all sessions): POST /auth/logout-all
+router.post('/auth/logout-all', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    await invalidateUserTokens(String(req.user!.id));
+    return res.status(200).json({message: 'Logged out from all sessions'});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/sessions:
+ *   get:
+ *     summary: List active sessions (devices) of the current user
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: OK, the session of the calling token has `current = true`
+ *       '401':
+ *         description: Unauthorized
+ */
+// List sessions: GET /auth/sessions
+router.get('/auth/sessions', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id);
+    const items = sessions.map(session => toSessionView(session, req.user!.sessionId));
+    return res.status(200).json({items, count: items.length});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/sessions/{id}:
+ *   delete:
+ *     summary: Sign out one session (e.g. a lost phone)
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '200':
+ *         description: Session revoked
+ *       '400':
+ *         description: Invalid id
+ *       '401':
+ *         description: Unauthorized
+ *       '404':
+ *         description: Session not found
+ */
+// Revoke a session: DELETE /auth/sessions/:id
+router.delete('/auth/sessions/:id', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid session id'});
+
+    const revoked = await revokeSession(req.user!.id, id);
+    if (!revoked) return res.status(404).json({error: 'Session not found'});
+
+    return res.status(200).json({message: 'Session revoked'});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/sessions/revoke-others:
+ *   post:
+ *     summary: Sign out everywhere except the current session
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Other sessions revoked
+ *       '401':
+ *         description: Unauthorized
+ */
+// Sign out everywhere else: POST /auth/sessions/revoke-others
+router.post('/auth/sessions/revoke-others', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const revoked = await revokeOtherSessions(req.user!.id, req.user!.sessionId);
+    return res.status(200).json({message: 'Other sessions revoked', revoked});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/me:
+ *   get:
+ *     summary: Get the profile of the current user
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: OK, with `impersonatedBy` (the admin's id) when called with an impersonation token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       '401':
+ *         description: Unauthorized
+ */
+// Current user: GET /auth/me
+router.get('/auth/me', authMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user!.id).populate('flats');
+    if (!user) return res.status(401).json({error: 'Unauthorized'});
+
+    const profile = withAvatarUrls(user.toJSON());
+    if (req.user!.actorId) return res.status(200).json({...profile, impersonatedBy: req.user!.actorId});
+    return res.status(200).json(profile);
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/me:
+ *   patch:
+ *     summary: Update the profile of the current user
+ *     description: Changing the email restarts email verification. Passwords can't be changed here.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               age:
+ *                 type: integer
+ *               email:
+ *                 type: string
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               birthDate:
+ *                 type: string
+ *                 format: date
+ *               address:
+ *                 type: string
+ *     responses:
+ *       '200':
+ *         description: Updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       '400':
+ *         description: Validation error
+ *       '401':
+ *         description: Unauthorized
+ *       '409':
+ *         description: Email already registered
+ */
+// Update current user: PATCH /auth/me
+router.patch('/auth/me', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user!.id);
+    if (!user) return res.status(401).json({error: 'Unauthorized'});
+
+    const allowed = ['age', 'email', 'firstName', 'lastName', 'birthDate', 'address'] as const;
+    for (const key of Object.keys(req.body || {})) {
+      if ((allowed as readonly string[]).includes(key)) {
+        // @ts-ignore
+        user[key] = req.body[key];
+      }
+    }
+
+    // A new address has to be verified again
+    const emailChanged = user.isModified('email');
+    if (emailChanged) {
+      user.emailVerified = false;
+      user.emailVerifiedAt = undefined;
+    }
+
+    try {
+      await user.save();
+    } catch (err: any) {
+      if (err && err.code === 11000) return res.status(409).json({error: 'Email already registered'});
+      return res.status(400).json({error: err.message});
+    }
+
+    if (emailChanged) {
+      await sendVerificationEmail(user).catch(err => console.error('Failed to send verification email:', err));
+    }
+
+    return res.status(200).json(user);
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/impersonate/{userId}:
+ *   post:
+ *     summary: Get a short-lived access token to use the API as another user (support)
+ *     description: >
+ *       The token carries the user as subject and the admin in the `act` claim. It expires after
+ *       IMPERSONATION_TTL_MINUTES (default 15) and can't be refreshed. Account-level operations
+ *       (password, MFA, sessions, API keys, profile email) are refused while impersonating, and
+ *       every request made with the token is logged with the admin's id.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Ticket 4711, customer can't see their flats
+ *     responses:
+ *       '200':
+ *         description: Impersonation token
+ *       '400':
+ *         description: Invalid id, or the target is the caller or another admin
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ *       '404':
+ *         description: User not found
+ */
+// Impersonate: POST /auth/impersonate/:userId
+router.post('/auth/impersonate/:userId', authMiddleware, requireSession, requirePermission('users:impersonate'), async (req: AuthRequest, res: Response) => {
+  try {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) return res.status(400).json({error: 'Invalid user id'});
+    if (String(userId) === String(req.user!.id)) return res.status(400).json({error: 'You cannot impersonate yourself'});
+
+    const user = await User.findById(userId);
+    if (!user) return res.status(404).json({error: 'User not found'});
+
+    // an impersonation token must never grant more than the admin already has
+    if (hasPermission(user.roles, 'users:impersonate')) {
+      return res.status(400).json({error: 'Administrators cannot be impersonated'});
+    }
+
+    const {reason} = (req.body || {}) as Record<string, any>;
+    const token = await startImpersonation(req.user!.id, user, req, typeof reason === 'string' ? reason : undefined);
+
+    return res.status(200).json({
+      token,
+      expiresIn: IMPERSONATION_TTL_SECONDS,
+      user: {id: String(user._id), email: user.email, firstName: user.firstName, lastName: user.lastName},
+    });
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/change-password:
+ *   post:
+ *     summary: Change the password of the current user
+ *     description: >
+ *       The new password must satisfy the password policy (length, character classes),
+ *       must not be one of the last PASSWORD_HISTORY passwords and must not appear in the
+ *       breached-password list. Every other session is signed out; fresh tokens for the
+ *       calling device are returned.
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currentPassword, newPassword]
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 example: N3w-Secret-42
+ *     responses:
+ *       '200':
+ *         description: Password changed, body contains new tokens
+ *       '400':
+ *         description: Policy violation (`errors`) or the account has no password
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Current password is incorrect
+ */
+// Change password: POST /auth/change-password
+router.post('/auth/change-password', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const {currentPassword, newPassword} = req.body as Record<string, any>;
+    if (!currentPassword || typeof currentPassword !== 'string' || !newPassword || typeof newPassword !== 'string') {
+      return res.status(400).json({error: 'currentPassword and newPassword are required'});
+    }
+
+    const user = await User.findById(req.user!.id).select('+password +passwordHistory');
+    if (!user) return res.status(404).json({error: 'User not found'});
+
+    // accounts created through an external identity provider set a first password via forgot-password
+    if (!user.password) {
+      return res.status(400).json({error: 'This account has no password, use forgot-password to set one'});
+    }
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      return res.status(403).json({error: 'Current password is incorrect'});
+    }
+
+    const errors = validatePassword(newPassword, user.email);
+    if (errors.length) return res.status(400).json({errors});
+    if (await isRecentPassword(user, newPassword)) {
+      return res.status(400).json({errors: [passwordReuseMessage()]});
+    }
+
+    user.password = newPassword;
+    await user.save(); // pre-save hook hashes the password, records it and bumps tokenVersion
+
+    // the old password may be known to someone else: end every session, keep this device signed in
+    await revokeAllRefreshTokens(String(user._id));
+    return res.status(200).json({message: 'Password changed', ...(await issueTokens(user, req))});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Send a password reset link to the given email
+ *     description: Always responds 200 so the endpoint can't be used to find out which emails are registered.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 example: user@example.com
+ *     responses:
+ *       '200':
+ *         description: Reset link sent if the account exists
+ *       '400':
+ *         description: Bad Request
+ */
+// Forgot password: POST /auth/forgot-password
+router.post('/auth/forgot-password', async (req: Request, res: Response) => {
+  try {
+    const {email: rawEmail} = req.body as Record<string, any>;
+    if (!rawEmail || typeof rawEmail !== 'string') {
+      return res.status(400).json({error: 'email is required'});
+    }
+
+    const email = String(rawEmail).toLowerCase().trim();
+    const user = await User.findOne({email});
+
+    if (user) {
+      const token = await issueUserToken(user._id, EnumUserTokenPurpose.PASSWORD_RESET, PASSWORD_RESET_TTL_MS);
+      await sendMail({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+          `Hi ${user.firstName},`,
+          '',
+          `Use the link below to choose a new password. It expires in ${PASSWORD_RESET_TTL_MS / 60000} minutes and can be used once.`,
+          `${APP_URL}/reset-password?token=${token}`,
+          '',
+          'If you did not request a password reset, you can ignore this email.',
+        ].join('\n'),
+      });
+    }
+
+    return res.status(200).json({message: 'If the email is registered, a reset link has been sent'});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/reset-password:
+ *   post:
+ *     summary: Set a new password using a reset token and sign out all sessions
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 example: NewSecret-123
+ *     responses:
+ *       '200':
+ *         description: Password changed
+ *       '400':
+ *         description: Validation error or invalid/expired token
+ */
+// Reset password: POST /auth/reset-password
+router.post('/auth/reset-password', async (req: Request, res: Response) => {
+  try {
+    const {token, password} = req.body as Record<string, any>;
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({error: 'token is required'});
+    }
+    if (typeof password !== 'string' || !password) {
+      return res.status(400).json({error: 'password is required'});
+    }
+
+    // the link stays usable when the new password is rejected
+    const ownerId = await findUserTokenOwner(token, EnumUserTokenPurpose.PASSWORD_RESET);
+    const user = ownerId && await User.findById(ownerId).select('+password +passwordHistory');
+    if (!user) return res.status(400).json({error: 'Invalid or expired reset token'});
+
+    const errors = validatePassword(password, user.email);
+    if (errors.length) return res.status(400).json({errors});
+    if (await isRecentPassword(user, password)) {
+      return res.status(400).json({errors: [passwordReuseMessage()]});
+    }
+
+    const userId = await consumeUserToken(token, EnumUserTokenPurpose.PASSWORD_RESET);
+    if (!userId || String(userId) !== String(user._id)) {
+      return res.status(400).json({error: 'Invalid or expired reset token'});
+    }
+
+    user.password = password;
+    await user.save(); // pre-save hook hashes the password and bumps tokenVersion
+
+    // A reset means the old password may be compromised: end every session
+    await revokeAllRefreshTokens(String(user._id));
+
+    return res.status(200).json({message: 'Password has been reset'});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/accept-invitation:
+ *   post:
+ *     summary: Choose a password for an imported account using the invitation token
+ *     description: The invitation was sent to the user's address, so accepting it also verifies the email.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 example: NewSecret-123
+ *     responses:
+ *       '200':
+ *         description: Password set, the user can log in
+ *       '400':
+ *         description: Validation error or invalid/expired token
+ */
+// Accept invitation: POST /auth/accept-invitation
+router.post('/auth/accept-invitation', async (req: Request, res: Response) => {
+  try {
+    const {token, password} = req.body as Record<string, any>;
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({error: 'token is required'});
+    }
+    if (typeof password !== 'string' || !password) {
+      return res.status(400).json({error: 'password is required'});
+    }
+
+    // the link stays usable when the password is rejected
+    const ownerId = await findUserTokenOwner(token, EnumUserTokenPurpose.INVITATION);
+    const user = ownerId && await User.findById(ownerId).select('+password');
+    if (!user) return res.status(400).json({error: 'Invalid or expired invitation token'});
+
+    const errors = validatePassword(password, user.email);
+    if (errors.length) return res.status(400).json({errors});
+
+    const userId = await consumeUserToken(token, EnumUserTokenPurpose.INVITATION);
+    if (!userId || String(userId) !== String(user._id)) {
+      return res.status(400).json({error: 'Invalid or expired invitation token'});
+    }
+
+    user.password = password;
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    await user.save(); // pre-save hook hashes the password
+
+    return res.status(200).json({message: 'Invitation accepted, you can now log in'});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/verify-email:
+ *   post:
+ *     summary: Confirm an email address with the token from the verification email
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       '200':
+ *         description: Email verified
+ *       '400':
+ *         description: Invalid or expired token
+ */
+// Verify email: POST /auth/verify-email
+router.post('/auth/verify-email', async (req: Request, res: Response) => {
+  try {
+    const {token} = req.body as Record<string, any>;
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({error: 'token is required'});
+    }
+
+    const userId = await consumeUserToken(token, EnumUserTokenPurpose.EMAIL_VERIFICATION);
+    if (!userId) return res.status(400).json({error: 'Invalid or expired verification token'});
+
+    const user = await User.findByIdAndUpdate(userId, {emailVerified: true, emailVerifiedAt: new Date()}, {new: true});
+    if (!user) return res.status(400).json({error: 'Invalid or expired verification token'});
+
+    return res.status(200).json({message: 'Email verified'});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/resend-verification:
+ *   post:
+ *     summary: Send a new verification email
+ *     description: Always responds 200 so the endpoint can't be used to find out which emails are registered.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 example: user@example.com
+ *     responses:
+ *       '200':
+ *         description: Verification email sent if the account exists and is unverified
+ *       '400':
+ *         description: Bad Request
+ */
+// Resend verification: POST /auth/resend-verification
+router.post('/auth/resend-verification', async (req: Request, res: Response) => {
+  try {
+    const {email: rawEmail} = req.body as Record<string, any>;
+    if (!rawEmail || typeof rawEmail !== 'string') {
+      return res.status(400).json({error: 'email is required'});
+    }
+
+    const email = String(rawEmail).toLowerCase().trim();
+    const user = await User.findOne({email});
+
+    if (user && !isEmailVerified(user)) {
+      await sendVerificationEmail(user);
+    }
+
+    return res.status(200).json({message: 'If the email is registered and unverified, a verification email has been sent'});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/mfa/enroll:
+ *   post:
+ *     summary: Start TOTP enrollment, returns the secret and an otpauth URI for authenticator apps
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Secret generated, confirm it with /auth/mfa/confirm
+ *       '400':
+ *         description: MFA already enabled
+ *       '401':
+ *         description: Unauthorized
+ */
+// MFA enrollment: POST /auth/mfa/enroll
+router.post('/auth/mfa/enroll', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user!.id);
+    if (!user) return res.status(401).json({error: 'Unauthorized'});
+    if (user.mfaEnabled) return res.status(400).json({error: 'MFA is already enabled'});
+
+    const secret = generateTotpSecret();
+    user.mfaPendingSecret = secret;
+    await user.save();
+
+    return res.status(200).json({secret, otpauthUri: buildOtpauthUri(secret, user.email)});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/mfa/confirm:
+ *   post:
+ *     summary: Confirm TOTP enrollment with a code from the authenticator app, returns one-time recovery codes
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       '200':
+ *         description: MFA enabled; recovery codes are only shown in this response
+ *       '400':
+ *         description: No enrollment in progress or invalid code
+ *       '401':
+ *         description: Unauthorized
+ */
+// MFA confirmation: POST /auth/mfa/confirm
+router.post('/auth/mfa/confirm', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const {code} = req.body as Record<string, any>;
+    if (!code || typeof code !== 'string') return res.status(400).json({error: 'code is required'});
+
+    const user = await User.findById(req.user!.id).select('+mfaPendingSecret');
+    if (!user) return res.status(401).json({error: 'Unauthorized'});
+    if (!user.mfaPendingSecret) return res.status(400).json({error: 'No MFA enrollment in progress'});
+
+    const step = verifyTotp(user.mfaPendingSecret, code);
+    if (step === null) return res.status(400).json({error: 'Invalid MFA code'});
+
+    const {codes, hashes} = generateRecoveryCodes();
+    user.mfaSecret = user.mfaPendingSecret;
+    user.mfaPendingSecret = undefined;
+    user.mfaEnabled = true;
+    user.mfaLastUsedStep = step;
+    user.mfaRecoveryCodes = hashes;
+    await user.save();
+
+    return res.status(200).json({message: 'MFA enabled', recoveryCodes: codes});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/mfa/recovery-codes:
+ *   post:
+ *     summary: Replace all recovery codes with a new set
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current TOTP code or a recovery code
+ *     responses:
+ *       '200':
+ *         description: New recovery codes, only shown in this response
+ *       '400':
+ *         description: MFA not enabled or invalid code
+ *       '401':
+ *         description: Unauthorized
+ */
+// Regenerate recovery codes: POST /auth/mfa/recovery-codes
+router.post('/auth/mfa/recovery-codes', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const {code} = req.body as Record<string, any>;
+    if (!code || typeof code !== 'string') return res.status(400).json({error: 'code is required'});
+
+    const userId = String(req.user!.id);
+    if (!(await verifyUserMfaCode(userId, code))) {
+      return res.status(400).json({error: 'MFA is not enabled or the code is invalid'});
+    }
+
+    const {codes, hashes} = generateRecoveryCodes();
+    await User.updateOne({_id: userId}, {mfaRecoveryCodes: hashes});
+
+    return res.status(200).json({recoveryCodes: codes});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/mfa/disable:
+ *   post:
+ *     summary: Disable MFA for the current user
+ *     tags:
+ *       - Auth
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current TOTP code or a recovery code
+ *     responses:
+ *       '200':
+ *         description: MFA disabled
+ *       '400':
+ *         description: MFA not enabled or invalid code
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: MFA is mandatory for this account
+ */
+// Disable MFA: POST /auth/mfa/disable
+router.post('/auth/mfa/disable', authMiddleware, requireSession, async (req: AuthRequest, res: Response) => {
+  try {
+    const {code} = req.body as Record<string, any>;
+    if (!code || typeof code !== 'string') return res.status(400).json({error: 'code is required'});
+
+    const user = await User.findById(req.user!.id);
+    if (!user) return res.status(401).json({error: 'Unauthorized'});
+    if (isMfaRequired(user)) return res.status(403).json({error: 'MFA is mandatory for this account'});
+
+    if (!(await verifyUserMfaCode(String(user._id), code))) {
+      return res.status(400).json({error: 'MFA is not enabled or the code is invalid'});
+    }
+
+    await User.updateOne(
+        {_id: user._id},
+        {$set: {mfaEnabled: false}, $unset: {mfaSecret: '', mfaPendingSecret: '', mfaRecoveryCodes: '', mfaLastUsedStep: ''}}
+    );
+
+    return res.status(200).json({message: 'MFA disabled'});
+  } catch (err: any) {
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
 export default router;
@@ -0,0 +1,553 @@
+import {Router, Request, Response} from 'express';
+import Category from '../models/Category';
+import Question, {IQuestionTranslation} from '../models/Question';
+import InfoCard from '../models/InfoCard';
+import authMiddleware, {
+  AuthRequest,
+  optionalAuthMiddleware,
+  principalHasPermission,
+  requirePermission,
+} from '../middleware/auth';
+import {paginate, PaginationError, parsePagination} from '../helpers/pagination';
+import {FALLBACK_LANGUAGE_IDS, languageFromQuery, LanguageQueryError} from '../services/languages';
+import {projectLanguage, publishedFilter} from '../services/infoCards';
+import {
+  allocateCategoryId,
+  CategoryInputError,
+  categoryUsage,
+  localizedName,
+  parseNames,
+  subtreeIds,
+  validateParent,
+} from '../services/categories';
+
+const router = Router();
+
+// /categories/12 or /categories/faq-payments
+function categoryFilter(idOrSlug: string): Record<string, any> {
+  return /^\d+$/.test(idOrSlug) ? {categoryId: Number(idOrSlug)} : {slug: idOrSlug.toLowerCase()};
+}
+
+// Disabled categories (and their content) look like missing ones to everyone but editors
+function visibleCategoryFilter(req: AuthRequest): Record<string, any> {
+  const filter = categoryFilter(req.params.id);
+  return principalHasPermission(req.user, 'categories:write') ? filter : {...filter, status: true};
+}
+
+// Adds `name` in the requested language (with fallback) when one is requested
+function withName<T extends { names?: Record<string, any> }>(category: T, languageId: number | null): T & { name?: string | null } {
+  return languageId === null ? category : {...category, name: localizedName(category.names, languageId)};
+}
+
+// The translation in `languageId`, otherwise the first one in FALLBACK_LANGUAGE_IDS order
+function pickTranslation(translations: IQuestionTranslation[], languageId: number): IQuestionTranslation | undefined {
+  for (const id of [languageId, ...FALLBACK_LANGUAGE_IDS]) {
+    const translation = translations.find(t => Number(t.languageId) === id);
+    if (translation) return translation;
+  }
+  return translations[0];
+}
+
+function sendError(res: Response, err: any) {
+  if (err instanceof CategoryInputError || err instanceof LanguageQueryError || err instanceof PaginationError) {
+    return res.status(400).json({error: err.message});
+  }
+  if (err?.code === 11000) {
+    const field = Object.keys(err.keyPattern || {})[0] || 'slug';
+    return res.status(409).json({error: `Category with this ${field} already exists`});
+  }
+  if (err?.name === 'ValidationError') return res.status(400).json({error: err.message});
+  res.status(500).json({error: err.message});
+}
+
+/**
+ * @openapi
+ * /categories:
+ *   get:
+ *     summary: List categories
+ *     tags:
+ *       - Categories
+ *     parameters:
+ *       - in: query
+ *         name: parentId
+ *         schema:
+ *           type: string
+ *         description: Children of this categoryId; 'root' for top-level categories
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: ["true","false","all"]
+ *         description: Defaults to active categories only; 'all' returns both
+ *       - in: query
+ *         name: languageId
+ *         schema:
+ *           type: integer
+ *         description: Adds `name` in this language (1,2,3), falling back to another language
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [ka, en, ru]
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *         description: "categoryId, slug, createdAt, prefix with - for descending (default categoryId)"
+ *     responses:
+ *       '200':
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Category'
+ *       '400':
+ *         description: Validation error
+ */
+// List categories
+router.get('/categories', async (req: Request, res: Response) => {
+  try {
+    const {status, parentId} = req.query as Record<string, string>;
+    const pageRequest = parsePagination(req.query, {sortFields: ['categoryId', 'slug', 'createdAt'], defaultSort: 'categoryId'});
+    const languageId = languageFromQuery(req.query);
+
+    const filter: Record<string, any> = {};
+    if (status !== undefined) {
+      const s = String(status).toLowerCase();
+      if (s !== 'all') filter.status = s === 'true';
+    } else {
+      filter.status = true;
+    }
+
+    if (parentId !== undefined) {
+      if (parentId === 'root') {
+        filter.parentId = null;
+      } else {
+        if (!Number.isInteger(Number(parentId))) return res.status(400).json({error: "parentId must be an integer or 'root'"});
+        filter.parentId = Number(parentId);
+      }
+    }
+
+    const {items, total, ...page} = await paginate(Category, filter, pageRequest, {project: query => query.lean()});
+    res.json({items: items.map(category => withName(category, languageId)), count: total, ...page});
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+/**
+ * @openapi
+ * /categories/{id}:
+ *   get:
+ *     summary: Get a category by categoryId or slug
+ *     tags:
+ *       - Categories
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: categoryId (numeric) or slug
+ *       - in: query
+ *         name: languageId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [ka, en, ru]
+ *     responses:
+ *       '200':
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Category'
+ *       '404':
+ *         description: Not found, or disabled (for callers without categories:write)
+ */
+// Get category by id or slug
+router.get('/categories/:id', optionalAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const languageId = languageFromQuery(req.query);
+    const category = await Category.findOne(visibleCategoryFilter(req)).lean();
+    if (!category) return res.status(404).json({error: 'Category not found'});
+
+    res.json(withName(category, languageId));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+/**
+ * @openapi
+ * /categories:
+ *   post:
+ *     summary: Create a category
+ *     description: categoryId is allocated by the server unless given. parentId must be an existing category.
+ *     tags:
+ *       - Categories
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [slug, names]
+ *             properties:
+ *               categoryId:
+ *                 type: integer
+ *                 description: Optional, to pick the id by hand; must be unused
+ *               slug:
+ *                 type: string
+ *                 description: Lowercase letters, digits and dashes, not only digits, unique
+ *               parentId:
+ *                 type: integer
+ *                 nullable: true
+ *               names:
+ *                 type: object
+ *                 description: Name per language, keyed by languageId (1=GE, 2=EN, 3=RU) or label (ka, en, ru)
+ *               status:
+ *                 type: boolean
+ *             example:
+ *               slug: payments
+ *               parentId: 1
+ *               names:
+ *                 "1": "გადახდები"
+ *                 "2": "Payments"
+ *                 "3": "Платежи"
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '201':
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Category'
+ *       '400':
+ *         description: Validation error or unknown parent
+ *       '409':
+ *         description: categoryId or slug already in use
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+// Create category
+router.post('/categories', authMiddleware, requirePermission('categories:write'), async (req: Request, res: Response) => {
+  try {
+    const body = req.body || {};
+    if (typeof body.slug !== 'string' || !body.slug.trim()) return res.status(400).json({error: 'slug is required'});
+    const names = parseNames(body.names);
+    const parentId = body.parentId === undefined ? null : await validateParent(body.parentId);
+
+    const categoryId = await allocateCategoryId(body.categoryId);
+    const category = await Category.create({
+      categoryId,
+      slug: body.slug,
+      parentId,
+      names,
+      status: body.status == null ? true : Boolean(body.status),
+    });
+
+    res.status(201).json(category);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+/**
+ * @openapi
+ * /categories/{id}:
+ *   patch:
+ *     summary: Update a category
+ *     description: Names are merged by language; null removes the name of a language.
+ *     tags:
+ *       - Categories
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: categoryId (numeric) or slug
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               slug:
+ *                 type: string
+ *               parentId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Cannot be the category itself or one of its descendants
+ *               names:
+ *                 type: object
+ *               status:
+ *                 type: boolean
+ *             example:
+ *               names:
+ *                 "2": "Payments and invoices"
+ *                 "3": null
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Updated
+ *       '400':
+ *         description: Validation error, unknown parent or a cycle
+ *       '404':
+ *         description: Not found
+ *       '409':
+ *         description: slug already in use
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+// Update category
+router.patch('/categories/:id', authMiddleware, requirePermission('categories:write'), async (req: Request, res: Response) => {
+  try {
+    const category = await Category.findOne(categoryFilter(req.params.id));
+    if (!category) return res.status(404).json({error: 'Category not found'});
+
+    const body = req.body || {};
+    if (body.slug !== undefined) category.slug = body.slug;
+    if (body.status != null) category.status = Boolean(body.status);
+    if (body.parentId !== undefined) category.parentId = await validateParent(body.parentId, category.categoryId);
+    if (body.names !== undefined) {
+      for (const [languageId, name] of Object.entries(parseNames(body.names, {partial: true}))) {
+        category.set(`names.${languageId}`, name ?? undefined);
+      }
+    }
+
+    await category.save();
+    res.json(category);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+/**
+ * @openapi
+ * /categories/{id}:
+ *   delete:
+ *     summary: Delete a category
+ *     description: Only categories without children and not used by any question or info card can be deleted.
+ *     tags:
+ *       - Categories
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: categoryId (numeric) or slug
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Deleted
+ *       '404':
+ *         description: Not found
+ *       '409':
+ *         description: Still in use, `usage` has the counts
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+// Delete category
+router.delete('/categories/:id', authMiddleware, requirePermission('categories:write'), async (req: Request, res: Response) => {
+  try {
+    const category = await Category.findOne(categoryFilter(req.params.id)).select('categoryId').lean();
+    if (!category) return res.status(404).json({error: 'Category not found'});
+
+    const usage = await categoryUsage(category.categoryId);
+    if (usage.children || usage.questions || usage.infoCards) {
+      return res.status(409).json({error: 'Category is still in use', usage});
+    }
+
+    await Category.deleteOne({categoryId: category.categoryId});
+    res.json({message: 'Category deleted', categoryId: category.categoryId});
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+/**
+ * @openapi
+ * /categories/{id}/questions:
+ *   get:
+ *     summary: Active questions of a category, in one language
+ *     description: >
+ *       Each question carries the single translation in the requested language, or when it has none the first
+ *       of Georgian, English, Russian. Without languageId or lang Georgian is requested.
+ *     tags:
+ *       - Categories
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: categoryId (numeric) or slug
+ *       - in: query
+ *         name: languageId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [ka, en, ru]
+ *       - in: query
+ *         name: includeChildren
+ *         schema:
+ *           type: boolean
+ *         description: Also return the questions of all subcategories
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
+ *     responses:
+ *       '200':
+ *         description: The category with its localized name, and the questions
+ *       '400':
+ *         description: Invalid language or pagination
+ *       '404':
+ *         description: Not found, or disabled (for callers without categories:write)
+ */
+// Localized questions of a category
+router.get('/categories/:id/questions', optionalAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const languageId = languageFromQuery(req.query) ?? FALLBACK_LANGUAGE_IDS[0];
+    const pageRequest = parsePagination(req.query, {sortFields: ['createdAt'], defaultSort: '-createdAt'});
+
+    const filter = visibleCategoryFilter(req);
+    const category = await Category.findOne(filter).lean();
+    if (!category) return res.status(404).json({error: 'Category not found'});
+
+    const categoryIds = req.query.includeChildren === 'true'
+        ? await subtreeIds(category.categoryId, {activeOnly: filter.status === true})
+        : [category.categoryId];
+    const {items, total, ...page} = await paginate(
+        Question,
+        {active: true, categoryId: {$in: categoryIds}},
+        pageRequest,
+        {project: query => query.lean()}
+    );
+
+    res.json({
+      category: withName(category, languageId),
+      items: items.map(question => {
+        const translation = pickTranslation(question.translations || [], languageId);
+        return {...question, translations: translation ? [translation] : []};
+      }),
+      count: total,
+      ...page,
+    });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+/**
+ * @openapi
+ * /categories/{id}/info-cards:
+ *   get:
+ *     summary: Published info cards of a category, in one language
+ *     description: >
+ *       Same cards and order as the public GET /info-cards, limited to the category. Each card carries the
+ *       single details entry in the requested language or its fallback. Without languageId or lang Georgian is
+ *       requested.
+ *     tags:
+ *       - Categories
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: categoryId (numeric) or slug
+ *       - in: query
+ *         name: languageId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [ka, en, ru]
+ *       - in: query
+ *         name: includeChildren
+ *         schema:
+ *           type: boolean
+ *         description: Also return the info cards of all subcategories
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
+ *     responses:
+ *       '200':
+ *         description: The category with its localized name, and the info cards
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 category:
+ *                   $ref: '#/components/schemas/Category'
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InfoCard'
+ *       '400':
+ *         description: Invalid language or pagination
+ *       '404':
+ *         description: Not found, or disabled (for callers without categories:write)
+ */
+// Localized info cards of a category
+router.get('/categories/:id/info-cards', optionalAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const languageId = languageFromQuery(req.query) ?? FALLBACK_LANGUAGE_IDS[0];
+    const pageRequest = parsePagination(req.query, {sortFields: ['position'], defaultSort: 'position'});
+
+    const filter = visibleCategoryFilter(req);
+    const category = await Category.findOne(filter).lean();
+    if (!category) return res.status(404).json({error: 'Category not found'});
+
+    const categoryIds = req.query.includeChildren === 'true'
+        ? await subtreeIds(category.categoryId, {activeOnly: filter.status === true})
+        : [category.categoryId];
+    const {items, total, ...page} = await paginate(
+        InfoCard,
+        {...publishedFilter(), categoryIdList: {$in: categoryIds}},
+        pageRequest,
+        {project: query => query.lean()}
+    );
+
+    res.json({
+      category: withName(category, languageId),
+      items: items.map(card => projectLanguage(card, languageId, {published: true})),
+      count: total,
+      ...page,
+    });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+});
+
+export default router;
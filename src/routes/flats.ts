@@ -2,11 +2,11 @@ import express from 'express';
 import User from '../models/User';
 import Flat from '../models/Flats';
 import UserFlat from '../models/UserFlat';
-import fs from 'fs';
-import path from 'path';
+import authMiddleware, {AuthRequest, requirePermission} from '../middleware/auth';
+import {paginate, PaginationError, parsePagination} from '../helpers/pagination';
 
-import {guessContentType} from "../helpers/cloudinary";
-import cloudinary from '../services/cloudinary';
+import {destroyImage, toImageMetadata, uploadImage} from '../services/imageUploads';
+import {bindRequestContext} from '../services/requestContext';
 
 import multer from "multer";
 
@@ -92,6 +92,8 @@ function parseAddress(body: any) {
  *                 items:
  *                   type: string
  *                   format: binary
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '201':
  *         description: Images uploaded
@@ -99,8 +101,12 @@ function parseAddress(body: any) {
  *         description: Validation error
  *       '404':
  *         description: Flat not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.post('/flats/:id/images', upload.array('images', 10), async (req, res) => {
+router.post('/flats/:id/images', authMiddleware, requirePermission('flats:write'), bindRequestContext(upload.array('images', 10)), async (req, res) => {
   try {
 
     console.log(req.body);
@@ -115,35 +121,11 @@ router.post('/flats/:id/images', upload.array('images', 10), async (req, res) =>
     }
 
     // Upload all images to Cloudinary in parallel
-    const results = await Promise.all(
-        files.map((file) =>
-            new Promise<{ up: any; file: Express.Multer.File }>((resolve, reject) => {
-              const stream = cloudinary.uploader.upload_stream(
-                  {folder: 'flats', resource_type: 'image'},
-                  (error, result) => {
-                    if (error) return reject(error);
-                    resolve({up: result, file});
-                  }
-              );
-              stream.end(file.buffer);
-            })
-        )
+    const uploaderId = (req as AuthRequest).user?.id;
+    const newImages = await Promise.all(
+        files.map(async (file) => toImageMetadata(await uploadImage(file, {folder: 'flats'}), file, uploaderId))
     );
 
-    const newImages = results.map(({up, file}) => {
-      const filename = up?.original_filename && up?.format
-          ? `${up.original_filename}.${up.format}`
-          : file?.originalname || up?.public_id;
-      return {
-        url: up?.secure_url || up?.url,
-        filename,
-        size: up?.bytes ?? file.size,
-        contentType: file.mimetype || (up?.format ? guessContentType(up.format) : 'image'),
-        storage: 'cloudinary',
-        cloudinaryPublicId: up?.public_id,
-      } as any;
-    });
-
     if (!newImages.length) {
       return res.status(400).json({error: 'No valid images found to upload'});
     }
@@ -179,6 +161,8 @@ router.post('/flats/:id/images', upload.array('images', 10), async (req, res) =>
  *         required: true
  *         schema:
  *           type: string
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Image deleted
@@ -186,8 +170,12 @@ router.post('/flats/:id/images', upload.array('images', 10), async (req, res) =>
  *         description: Validation error
  *       '404':
  *         description: Flat or image not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.delete('/flats/:id/images/:imageId', async (req, res) => {
+router.delete('/flats/:id/images/:imageId', authMiddleware, requirePermission('flats:write'), async (req, res) => {
   try {
     const {id, imageId} = req.params;
 
@@ -205,17 +193,8 @@ router.delete('/flats/:id/images/:imageId', async (req, res) => {
     flat.images = images as any;
     await flat.save();
 
-    // Remove from Cloudinary if applicable
-    if (removed?.storage === 'cloudinary' && removed?.cloudinaryPublicId) {
-      // best-effort delete; don't fail request on Cloudinary error
-      cloudinary.uploader.destroy(removed.cloudinaryPublicId).catch(() => void 0);
-    }
-
-    // Legacy local cleanup
-    if (removed?.storage === 'local' && removed?.filename) {
-      const filePath = path.join(process.cwd(), 'uploads', removed.filename);
-      fs.promises.unlink(filePath).catch(() => void 0);
-    }
+    // Remove from Cloudinary (or legacy local storage), best-effort
+    destroyImage(removed);
 
     return res.json({message: 'Image deleted', images: flat.images, imagesCount: flat.images?.length || 0});
   } catch (err: any) {
@@ -249,6 +228,8 @@ router.delete('/flats/:id/images/:imageId', async (req, res) => {
  *               image:
  *                 type: string
  *                 format: binary
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '201':
  *         description: Created
@@ -258,8 +239,12 @@ router.delete('/flats/:id/images/:imageId', async (req, res) => {
  *               $ref: '#/components/schemas/Flat'
  *       '400':
  *         description: Validation error
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.post('/flats', async (req, res) => {
+router.post('/flats', authMiddleware, requirePermission('flats:write'), async (req, res) => {
   try {
     const {square, price, currency} = req.body || {};
     const address = parseAddress(req.body);
@@ -295,6 +280,7 @@ router.post('/flats', async (req, res) => {
       size: file.size,
       contentType: file.mimetype,
       storage: 'local',
+      uploadedBy: (req as AuthRequest).user?.id,
     };
 
     // Make document to obtain id
@@ -344,6 +330,8 @@ router.post('/flats', async (req, res) => {
  *                 type: string
  *               address:
  *                 type: object
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Updated
@@ -355,8 +343,12 @@ router.post('/flats', async (req, res) => {
  *         description: Validation error
  *       '404':
  *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.patch('/flats/:id', async (req, res) => {
+router.patch('/flats/:id', authMiddleware, requirePermission('flats:write'), async (req, res) => {
   try {
     const {id} = req.params;
     const {square, price, currency} = req.body || {};
@@ -412,6 +404,8 @@ router.patch('/flats/:id', async (req, res) => {
  *                 type: string
  *               flatId:
  *                 type: string
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Assigned
@@ -419,8 +413,12 @@ router.patch('/flats/:id', async (req, res) => {
  *         description: Validation error
  *       '404':
  *         description: User or Flat not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.post('/assign-flat', async (req, res) => {
+router.post('/assign-flat', authMiddleware, requirePermission('flats:assign'), async (req, res) => {
 
   console.log("boooody", req.body);
 
@@ -466,6 +464,9 @@ router.post('/assign-flat', async (req, res) => {
  * /flats:
  *   get:
  *     summary: List flats with optional currency filter
+ *     description: >
+ *       Without limit, cursor or skip every matching flat is returned, as before pagination existed, and the
+ *       page fields are left out. Send limit (or a cursor) to page through the list.
  *     tags:
  *       - Flats
  *     parameters:
@@ -474,6 +475,14 @@ router.post('/assign-flat', async (req, res) => {
  *         schema:
  *           type: string
  *         description: Filter by currency (GEL, USD, EUR)
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *         description: "_id, price, square, prefix with - for descending (default -_id, newest first)"
  *     responses:
  *       '200':
  *         description: OK
@@ -490,12 +499,23 @@ router.post('/assign-flat', async (req, res) => {
  *                   type: integer
  *                 total:
  *                   type: integer
+ *                 limit:
+ *                   type: integer
+ *                   description: Only when paging
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                 prevCursor:
+ *                   type: string
+ *                   nullable: true
  *       '400':
  *         description: Validation error
  */
 router.get('/flats', async (req, res) => {
   try {
     const q = req.query as Record<string, string | undefined>;
+    // flats have no timestamps, _id order is creation order
+    const pageRequest = parsePagination(q, {sortFields: ['_id', 'price', 'square'], defaultSort: '-_id'});
 
     // Build filter - only handle currency
     const filter: any = {};
@@ -519,17 +539,25 @@ router.get('/flats', async (req, res) => {
       }
     }
 
-    const [total, flats] = await Promise.all([
-      Flat.countDocuments(filter),
-      Flat.find(filter).lean(),
-    ]);
+    // clients from before pagination send none of these and expect every flat
+    const paged = ['limit', 'cursor', 'skip'].some(key => q[key] !== undefined);
+    if (!paged) {
+      const {sortField, direction} = pageRequest;
+      const sort: Record<string, 1 | -1> = sortField === '_id' ? {_id: direction} : {[sortField]: direction, _id: direction};
+      const flats = await Flat.find(filter).sort(sort).lean();
+      return res.json({flats, flatsCount: flats.length, total: flats.length});
+    }
+
+    const {items: flats, total, ...page} = await paginate(Flat, filter, pageRequest, {project: query => query.lean()});
 
     return res.json({
       flats,
       flatsCount: flats.length,
       total,
+      ...page,
     });
   } catch (error) {
+    if (error instanceof PaginationError) return res.status(400).json({ error: error.message });
     return res.status(500).json({ error: 'Internal server error.' });
   }
 });
@@ -0,0 +1,800 @@
+import {Router, Request, Response, NextFunction} from 'express';
+import InfoCard, {IInfoCardImageAlt} from '../models/InfoCard';
+import {languageIdFromLabel} from '../models/Language';
+import {languageFromQuery, LanguageQueryError} from '../services/languages';
+import authMiddleware, {
+  AuthRequest,
+  optionalAuthMiddleware,
+  principalHasPermission,
+  requirePermission,
+} from '../middleware/auth';
+import {paginate, PaginationError, parsePagination} from '../helpers/pagination';
+import {
+  allocateInfoCardId,
+  assertKnownLanguages,
+  buildDetails,
+  InfoCardInputError,
+  mergeDetails,
+  nextPosition,
+  parsePosition,
+  parsePublishWindow,
+  projectLanguage,
+  publishedFilter,
+  reorderInfoCards,
+  validateCategoryIdList,
+  validateDetails,
+} from '../services/infoCards';
+import {
+  destroyImage,
+  imageUpload,
+  ImageUploadError,
+  receiveImage,
+  toImageMetadata,
+  uploadImage,
+} from '../services/imageUploads';
+
+const router = Router();
+
+const INFO_CARD_IMAGE_MAX_BYTES = Number(process.env.INFO_CARD_IMAGE_MAX_BYTES || 10 * 1024 * 1024);
+const receiveInfoCardImage = receiveImage(imageUpload(INFO_CARD_IMAGE_MAX_BYTES), 'image');
+
+const IMAGE_DATA_REMOVED = 'imageData is no longer supported, upload the image with PUT /info-cards/{id}/image';
+
+// Alt text as an array of {languageId or lang, text}, or a map keyed by language
+// id or label ({"1": "...", "en": "..."}). Multipart forms send it as a JSON string.
+// Languages are checked against the Language collection, like details.
+async function parseAltText(raw: unknown): Promise<IInfoCardImageAlt[]> {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new InfoCardInputError('alt must be JSON: [{"languageId": 1, "text": "..."}]');
+    }
+  }
+  if (value == null) return [];
+  if (typeof value !== 'object') throw new InfoCardInputError('alt must be an array or an object');
+
+  const entries: Array<[unknown, unknown]> = Array.isArray(value)
+      ? value.map(item => [item?.languageId ?? item?.lang, item?.text])
+      : Object.entries(value as Record<string, unknown>);
+
+  const byLanguage = new Map<number, string>();
+  for (const [language, text] of entries) {
+    const numeric = (typeof language === 'number' || (typeof language === 'string' && language.trim() !== ''))
+        && Number.isInteger(Number(language));
+    const languageId = numeric
+        ? Number(language)
+        : typeof language === 'string' ? languageIdFromLabel(language) : null;
+    if (languageId === null) throw new InfoCardInputError(`Unknown alt language: ${String(language)}`);
+    if (typeof text !== 'string' || !text.trim()) throw new InfoCardInputError(`alt text for language ${languageId} must be a non-empty string`);
+    if (byLanguage.has(languageId)) throw new InfoCardInputError(`Duplicate alt text for language ${languageId}`);
+    byLanguage.set(languageId, text.trim());
+  }
+  await assertKnownLanguages([...byLanguage.keys()]);
+  return [...byLanguage].map(([languageId, text]) => ({languageId, text}));
+}
+
+// ?status lists unpublished cards as well, which only editors may see
+function unpublishedRequiresPermission(req: AuthRequest, res: Response, next: NextFunction) {
+  if (req.query.status === undefined) return next();
+  return authMiddleware(req, res, () => requirePermission('infoCards:write')(req, res, next));
+}
+
+function parseInfoCardId(raw: string): number | null {
+  const numericId = Number(raw);
+  return Number.isNaN(numericId) ? null : numericId;
+}
+
+// Old paths under /users, answered by the same handlers until clients have moved.
+// `successor` may contain :id, filled in from the request.
+function deprecatedAlias(successor: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.set('Deprecation', 'true');
+    res.set('Link', `</api${successor.replace(':id', encodeURIComponent(req.params.id ?? ''))}>; rel="successor-version"`);
+    next();
+  };
+}
+
+/**
+ * @openapi
+ * /info-cards:
+ *   get:
+ *     summary: List info cards
+ *     description: >
+ *       Without `status` this is the public list: active cards inside their publishFrom/publishUntil window,
+ *       ordered by position, with disabled languages left out. A requested language that a card lacks or has
+ *       disabled falls back to Georgian, then English, then Russian; check `details[0].languageId` for the
+ *       language actually returned. With `status` every card is listed regardless of its window (editors only).
+ *     tags:
+ *       - InfoCards
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: ["true","false","all"]
+ *         description: Requires infoCards:write; lists by status only, ignoring the publish window ('all' returns both)
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: integer
+ *         description: Cards whose categoryIdList contains this id
+ *       - in: query
+ *         name: languageId
+ *         schema:
+ *           type: integer
+ *         description: Just the details entry of this language (1,2,3), or of the fallback language in the public list
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [ka, en, ru]
+ *         description: Same as languageId, by label; languageId wins when both are sent
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *         description: "position, infoCardId, createdAt, prefix with - for descending (default position)"
+ *     responses:
+ *       '200':
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InfoCard'
+ *       '400':
+ *         description: Validation error
+ *       '401':
+ *         description: status sent without authentication
+ *       '403':
+ *         description: status sent without infoCards:write
+ */
+// List info cards
+router.get('/info-cards', unpublishedRequiresPermission, async (req: Request, res: Response) => {
+  try {
+    const {status, categoryId} = req.query as Record<string, string>;
+    const pageRequest = parsePagination(req.query, {sortFields: ['position', 'infoCardId', 'createdAt'], defaultSort: 'position'});
+    const languageId = languageFromQuery(req.query);
+
+    // Only published cards unless ?status says otherwise
+    const published = status === undefined;
+    const filter: Record<string, any> = published ? publishedFilter() : {};
+    if (!published) {
+      const s = String(status).toLowerCase();
+      if (s !== 'all') filter.status = s === 'true';
+    }
+
+    if (categoryId) {
+      const category = Number(categoryId);
+      if (Number.isNaN(category)) return res.status(400).json({error: 'categoryId must be a number'});
+      filter.categoryIdList = category;
+    }
+
+    // the public list falls back to another language instead
+    if (languageId !== null && !published) filter['details.languageId'] = languageId;
+
+    const {items, total, ...page} = await paginate(InfoCard, filter, pageRequest, {project: query => query.lean()});
+    res.json({items: items.map(card => projectLanguage(card, languageId, {published})), count: total, ...page});
+  } catch (err: any) {
+    if (err instanceof PaginationError || err instanceof InfoCardInputError || err instanceof LanguageQueryError) {
+      return res.status(400).json({error: err.message});
+    }
+    res.status(500).json({error: err.message});
+  }
+});
+
+/**
+ * @openapi
+ * /info-cards/{id}:
+ *   get:
+ *     summary: Get an info card by infoCardId
+ *     description: >
+ *       Anonymous callers and callers without infoCards:write only get published cards (active and inside
+ *       their publish window) with disabled languages left out, like the public list. Editors get every card
+ *       with all its details.
+ *     tags:
+ *       - InfoCards
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: infoCardId (numeric)
+ *       - in: query
+ *         name: languageId
+ *         schema:
+ *           type: integer
+ *         description: Only return the details entry of this language (1,2,3), falling back to another active language when it's missing or disabled
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [ka, en, ru]
+ *     responses:
+ *       '200':
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InfoCard'
+ *       '400':
+ *         description: Invalid id or language
+ *       '404':
+ *         description: Not found, or not published (for callers without infoCards:write)
+ */
+// Get info card by numeric id
+router.get('/info-cards/:id', optionalAuthMiddleware, async (req: AuthRequest, res: Response) => {
+  try {
+    const numericId = parseInfoCardId(req.params.id);
+    if (numericId === null) return res.status(400).json({error: 'Invalid id param'});
+    const languageId = languageFromQuery(req.query);
+
+    // scheduled and switched-off cards look like missing ones to the public
+    const published = !principalHasPermission(req.user, 'infoCards:write');
+    const card = await InfoCard.findOne({...(published ? publishedFilter() : {}), infoCardId: numericId}).lean();
+    if (!card) return res.status(404).json({error: 'InfoCard not found'});
+
+    res.json(projectLanguage(card, languageId, {published}));
+  } catch (err: any) {
+    if (err instanceof LanguageQueryError) return res.status(400).json({error: err.message});
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Create InfoCard; infoCardId and detail ids are allocated unless an infoCardId is given
+async function createInfoCard(req: Request, res: Response) {
+  try {
+    const body = req.body || {};
+    if (body.imageData != null) return res.status(400).json({ error: IMAGE_DATA_REMOVED });
+
+    // validate everything before an id is taken from the sequence
+    const detailInputs = await validateDetails(body.details);
+    const status = body.status == null ? true : Boolean(body.status);
+    const categoryIdList = await validateCategoryIdList(body.categoryIdList);
+    const publishWindow = parsePublishWindow(body);
+    const position = body.position !== undefined ? parsePosition(body.position) : await nextPosition();
+
+    const infoCardId = await allocateInfoCardId(body.id ?? body.infoCardId);
+    const details = await buildDetails(detailInputs, infoCardId);
+
+    const doc = await InfoCard.create({
+      infoCardId,
+      status,
+      ...publishWindow,
+      position,
+      categoryIdList,
+      details,
+    });
+
+    res.status(201).json(doc);
+  } catch (err: any) {
+    if (err && err.code === 11000) return res.status(409).json({ error: 'InfoCard with this id already exists' });
+    res.status(400).json({ error: err.message });
+  }
+}
+
+// Update InfoCard by numeric id (partial; details are merged by language)
+async function updateInfoCard(req: Request, res: Response) {
+  try {
+    const numericId = parseInfoCardId(req.params.id);
+    if (numericId === null) return res.status(400).json({ error: 'Invalid id param' });
+
+    const existing = await InfoCard.findOne({ infoCardId: numericId });
+    if (!existing) return res.status(404).json({ error: 'InfoCard not found' });
+
+    const body = req.body || {};
+    if (body.imageData != null) return res.status(400).json({ error: IMAGE_DATA_REMOVED });
+
+    const update: any = {};
+    if (body.status != null) update.status = Boolean(body.status);
+    if (body.categoryIdList !== undefined) update.categoryIdList = await validateCategoryIdList(body.categoryIdList);
+    Object.assign(update, parsePublishWindow(body, existing));
+    if (body.position !== undefined) update.position = parsePosition(body.position);
+    if (body.details !== undefined) {
+      const inputs = await validateDetails(body.details, {allowRemove: true});
+      update.details = await mergeDetails(existing.toObject().details || [], inputs, numericId);
+    }
+
+    Object.assign(existing, update);
+    await existing.save();
+
+    res.json(existing);
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+}
+
+/**
+ * @openapi
+ * /info-cards:
+ *   post:
+ *     summary: Create an info card
+ *     description: >
+ *       infoCardId and infoCardDetailId are allocated by the server. Every languageId must exist in the
+ *       Language collection and appear at most once; title is required per language.
+ *     tags:
+ *       - InfoCards
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               infoCardId:
+ *                 type: integer
+ *                 description: Optional, to pick the id by hand (also accepted as `id`); must be unused
+ *               status:
+ *                 type: boolean
+ *               publishFrom:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               publishUntil:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Must be after publishFrom
+ *               position:
+ *                 type: integer
+ *                 description: Defaults to the end of the list
+ *               categoryIdList:
+ *                 type: array
+ *                 description: categoryIds of existing categories
+ *                 items:
+ *                   type: integer
+ *               details:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/InfoCardDetail'
+ *             example:
+ *               status: true
+ *               publishFrom: "2026-11-01T00:00:00Z"
+ *               publishUntil: "2026-12-01T00:00:00Z"
+ *               categoryIdList: [1, 2]
+ *               details:
+ *                 - languageId: 1
+ *                   title: "სათაური"
+ *                   subTitle: "ქვესათაური"
+ *                 - languageId: 2
+ *                   title: "Title"
+ *                   subTitle: "Subtitle"
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '201':
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InfoCard'
+ *       '400':
+ *         description: Validation error, unknown or repeated language, unknown category, or infoCardId already in use
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ * /users/info-card:
+ *   post:
+ *     summary: Create an info card (deprecated, use POST /info-cards)
+ *     deprecated: true
+ *     tags:
+ *       - InfoCards
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '201':
+ *         description: Created
+ */
+router.post('/info-cards', authMiddleware, requirePermission('infoCards:write'), createInfoCard);
+router.post('/users/info-card', deprecatedAlias('/info-cards'), authMiddleware, requirePermission('infoCards:write'), createInfoCard);
+
+/**
+ * @openapi
+ * /info-cards/{id}:
+ *   patch:
+ *     summary: Update an info card (partial, details are merged by language)
+ *     description: >
+ *       Each details entry updates the entry of its languageId (only the fields sent), adds the language when the
+ *       card doesn't have it yet (title required), or removes it with `remove: true`. Languages not mentioned
+ *       are kept.
+ *     tags:
+ *       - InfoCards
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: infoCardId (numeric)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: boolean
+ *               publishFrom:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: null removes the start of the window
+ *               publishUntil:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: null removes the end of the window
+ *               position:
+ *                 type: integer
+ *               categoryIdList:
+ *                 type: array
+ *                 description: categoryIds of existing categories
+ *                 items:
+ *                   type: integer
+ *               details:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [languageId]
+ *                   properties:
+ *                     languageId:
+ *                       type: integer
+ *                     title:
+ *                       type: string
+ *                     subTitle:
+ *                       type: string
+ *                     status:
+ *                       type: boolean
+ *                     remove:
+ *                       type: boolean
+ *             example:
+ *               details:
+ *                 - languageId: 2
+ *                   title: "New title"
+ *                 - languageId: 3
+ *                   remove: true
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Updated
+ *       '400':
+ *         description: Validation error
+ *       '404':
+ *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ * /users/info-card/{id}:
+ *   patch:
+ *     summary: Update an info card (deprecated, use PATCH /info-cards/{id})
+ *     deprecated: true
+ *     tags:
+ *       - InfoCards
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Updated
+ */
+router.patch('/info-cards/:id', authMiddleware, requirePermission('infoCards:write'), updateInfoCard);
+router.patch('/users/info-card/:id', deprecatedAlias('/info-cards/:id'), authMiddleware, requirePermission('infoCards:write'), updateInfoCard);
+
+/**
+ * @openapi
+ * /info-cards/order:
+ *   put:
+ *     summary: Reorder info cards
+ *     description: >
+ *       The listed cards move to the front in the given order, all other cards follow in their current
+ *       order. Positions are renumbered from 1.
+ *     tags:
+ *       - InfoCards
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ids]
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: infoCardIds, first shown first
+ *             example:
+ *               ids: [12, 3, 7]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: The new order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       infoCardId:
+ *                         type: integer
+ *                       position:
+ *                         type: integer
+ *       '400':
+ *         description: Missing, repeated or unknown ids
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+// Reorder info cards
+router.put('/info-cards/order', authMiddleware, requirePermission('infoCards:write'), async (req: Request, res: Response) => {
+  try {
+    const items = await reorderInfoCards(req.body?.ids);
+    res.json({items});
+  } catch (err: any) {
+    if (err instanceof InfoCardInputError) return res.status(400).json({error: err.message});
+    res.status(500).json({error: err.message});
+  }
+});
+
+/**
+ * @openapi
+ * /info-cards/{id}:
+ *   delete:
+ *     summary: Delete an info card
+ *     tags:
+ *       - InfoCards
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: infoCardId (numeric)
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Deleted
+ *       '400':
+ *         description: Invalid id
+ *       '404':
+ *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+// Delete info card
+router.delete('/info-cards/:id', authMiddleware, requirePermission('infoCards:write'), async (req: Request, res: Response) => {
+  try {
+    const numericId = parseInfoCardId(req.params.id);
+    if (numericId === null) return res.status(400).json({error: 'Invalid id param'});
+
+    const deleted = await InfoCard.findOneAndDelete({infoCardId: numericId});
+    if (!deleted) return res.status(404).json({error: 'InfoCard not found'});
+    destroyImage(deleted.image);
+
+    res.json({message: 'InfoCard deleted', infoCardId: numericId});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+/**
+ * @openapi
+ * /info-cards/{id}/image:
+ *   put:
+ *     summary: Upload or replace the image of an info card
+ *     description: JPEG, PNG, WebP or GIF up to INFO_CARD_IMAGE_MAX_BYTES (10 MB). The previous image is deleted.
+ *     tags:
+ *       - InfoCards
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: infoCardId (numeric)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [image]
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *               alt:
+ *                 type: string
+ *                 description: 'JSON, e.g. [{"languageId": 1, "text": "..."}] or {"en": "..."}'
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: The updated info card
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InfoCard'
+ *       '400':
+ *         description: Missing, invalid or too large image, or invalid alt text
+ *       '404':
+ *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ *   patch:
+ *     summary: Change the alt text of the image
+ *     tags:
+ *       - InfoCards
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [alt]
+ *             properties:
+ *               alt:
+ *                 type: array
+ *                 description: Replaces the alt text of every language
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     languageId:
+ *                       type: integer
+ *                     text:
+ *                       type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: The updated info card
+ *       '400':
+ *         description: Invalid alt text
+ *       '404':
+ *         description: Info card or image not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ *   delete:
+ *     summary: Remove the image of an info card
+ *     tags:
+ *       - InfoCards
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Image removed
+ *       '404':
+ *         description: Info card or image not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+// Upload or replace the info card image
+router.put('/info-cards/:id/image', authMiddleware, requirePermission('infoCards:write'), receiveInfoCardImage, async (req: AuthRequest, res: Response) => {
+  try {
+    const numericId = parseInfoCardId(req.params.id);
+    if (numericId === null) return res.status(400).json({error: 'Invalid id param'});
+
+    const file = req.file;
+    if (!file) return res.status(400).json({error: 'No image uploaded. Use form-data with field name "image".'});
+    const alt = await parseAltText(req.body?.alt);
+
+    const card = await InfoCard.findOne({infoCardId: numericId});
+    if (!card) return res.status(404).json({error: 'InfoCard not found'});
+
+    const up = await uploadImage(file, {folder: 'info-cards'});
+    const previous = card.image;
+    card.image = {...toImageMetadata(up, file, req.user?.id), alt};
+    await card.save();
+
+    // only once the new image is stored
+    destroyImage(previous);
+
+    res.json(card);
+  } catch (err: any) {
+    if (err instanceof InfoCardInputError || err instanceof ImageUploadError) return res.status(400).json({error: err.message});
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Change the alt text of the info card image
+router.patch('/info-cards/:id/image', authMiddleware, requirePermission('infoCards:write'), async (req: Request, res: Response) => {
+  try {
+    const numericId = parseInfoCardId(req.params.id);
+    if (numericId === null) return res.status(400).json({error: 'Invalid id param'});
+    if (req.body?.alt === undefined) return res.status(400).json({error: 'alt is required'});
+    const alt = await parseAltText(req.body.alt);
+
+    const card = await InfoCard.findOne({infoCardId: numericId});
+    if (!card) return res.status(404).json({error: 'InfoCard not found'});
+    if (!card.image) return res.status(404).json({error: 'InfoCard has no image'});
+
+    card.set('image.alt', alt);
+    await card.save();
+
+    res.json(card);
+  } catch (err: any) {
+    if (err instanceof InfoCardInputError) return res.status(400).json({error: err.message});
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Remove the info card image
+router.delete('/info-cards/:id/image', authMiddleware, requirePermission('infoCards:write'), async (req: Request, res: Response) => {
+  try {
+    const numericId = parseInfoCardId(req.params.id);
+    if (numericId === null) return res.status(400).json({error: 'Invalid id param'});
+
+    const card = await InfoCard.findOne({infoCardId: numericId});
+    if (!card) return res.status(404).json({error: 'InfoCard not found'});
+    if (!card.image) return res.status(404).json({error: 'InfoCard has no image'});
+
+    const previous = card.image;
+    card.image = null;
+    await card.save();
+    destroyImage(previous);
+
+    res.json({message: 'Image removed'});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+export default router;
@@ -0,0 +1,30 @@
+import {Router, Request, Response} from 'express';
+import {getPublicJwks} from '../services/jwtKeys';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /.well-known/jwks.json:
+ *   servers:
+ *     - url: /
+ *   get:
+ *     summary: Public keys for verifying access tokens (JWKS)
+ *     description: Served from the site root, not under /api. Empty when access tokens are HMAC-signed.
+ *     tags:
+ *       - Auth
+ *     responses:
+ *       '200':
+ *         description: OK
+ */
+router.get('/.well-known/jwks.json', (_req: Request, res: Response) => {
+  try {
+    // short cache so verifiers pick up rotated keys quickly
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json(getPublicJwks());
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+export default router;
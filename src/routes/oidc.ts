@@ -0,0 +1,227 @@
+import {Router, Request, Response} from 'express';
+import {
+  createAuthorizationUrl,
+  findOrCreateUserForOidcClaims,
+  handleAuthorizationCallback,
+  listOidcProviders,
+  OidcError,
+} from '../services/oidc';
+import {ExternalIdentityError} from '../services/externalIdentities';
+import {completeLogin} from '../services/authTokens';
+import {EMAIL_VERIFICATION_POLICY, isEmailVerified} from '../services/emailVerification';
+import {
+  FIREBASE_AUTH_ENABLED,
+  findOrCreateUserForFirebaseToken,
+  verifyFirebaseIdToken,
+} from '../services/firebaseAuth';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /auth/oidc/providers:
+ *   get:
+ *     summary: List configured external identity providers
+ *     tags:
+ *       - Auth
+ *     responses:
+ *       '200':
+ *         description: OK
+ */
+router.get('/auth/oidc/providers', (_req: Request, res: Response) => {
+  res.json({items: listOidcProviders()});
+});
+
+/**
+ * @openapi
+ * /auth/oidc/{provider}/authorize:
+ *   get:
+ *     summary: Start an authorization code + PKCE login with an external identity provider
+ *     description: Redirects to the provider. With `format=json` the URL is returned instead, for single-page apps.
+ *     tags:
+ *       - Auth
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json]
+ *     responses:
+ *       '200':
+ *         description: Authorization URL (format=json)
+ *       '302':
+ *         description: Redirect to the identity provider
+ *       '404':
+ *         description: Unknown provider
+ *       '502':
+ *         description: Identity provider unreachable
+ */
+router.get('/auth/oidc/:provider/authorize', async (req: Request, res: Response) => {
+  try {
+    const {url, state} = await createAuthorizationUrl(req.params.provider);
+    if (req.query.format === 'json') return res.json({authorizationUrl: url, state});
+    return res.redirect(url);
+  } catch (err: any) {
+    if (err instanceof OidcError) return res.status(err.status).json({error: err.message});
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+/**
+ * @openapi
+ * /auth/oidc/{provider}/callback:
+ *   get:
+ *     summary: Complete an external login (provider redirect target)
+ *     description: >
+ *       Returns the same body as /auth/login: tokens, or `{mfaRequired, mfa_token}` when the user has MFA enabled.
+ *       A frontend that is itself the redirect target can POST `code` and `state` to the same path instead.
+ *     tags:
+ *       - Auth
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *     responses:
+ *       '200':
+ *         description: OK
+ *       '400':
+ *         description: Missing/invalid code or state, or the provider reported an error
+ *       '401':
+ *         description: ID token could not be verified
+ *       '403':
+ *         description: Sign-up through this provider is disabled, the account was deleted, or the email is unverified (EMAIL_VERIFICATION_POLICY=block)
+ *       '409':
+ *         description: Email belongs to an existing account but is not verified by the provider
+ *   post:
+ *     summary: Complete an external login with code and state received by the frontend
+ *     tags:
+ *       - Auth
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *     responses:
+ *       '200':
+ *         description: OK
+ *       '400':
+ *         description: Missing/invalid code or state
+ *       '401':
+ *         description: ID token could not be verified
+ */
+async function oidcCallback(req: Request, res: Response) {
+  try {
+    const params = (req.method === 'POST' ? req.body : req.query) as Record<string, any>;
+    if (params?.error) {
+      return res.status(400).json({error: `Identity provider error: ${params.error_description || params.error}`});
+    }
+
+    const {code, state} = params || {};
+    if (!code || typeof code !== 'string' || !state || typeof state !== 'string') {
+      return res.status(400).json({error: 'code and state are required'});
+    }
+
+    const claims = await handleAuthorizationCallback(req.params.provider, code, state);
+    const user = await findOrCreateUserForOidcClaims(req.params.provider, claims);
+
+    if (EMAIL_VERIFICATION_POLICY === 'block' && !isEmailVerified(user)) {
+      return res.status(403).json({error: 'Email address is not verified'});
+    }
+
+    return res.status(200).json(await completeLogin(user, req));
+  } catch (err: any) {
+    if (err instanceof ExternalIdentityError) return res.status(err.status).json({error: err.message});
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+}
+
+router.get('/auth/oidc/:provider/callback', oidcCallback);
+router.post('/auth/oidc/:provider/callback', oidcCallback);
+
+/**
+ * @openapi
+ * /auth/firebase:
+ *   post:
+ *     summary: Exchange a Firebase ID token for our own tokens
+ *     description: >
+ *       Returns the same body as /auth/login: tokens, or `{mfaRequired, mfa_token}` when the user has MFA enabled.
+ *       Accounts with MFA enabled must sign in this way; authMiddleware rejects their Firebase ID tokens.
+ *     tags:
+ *       - Auth
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [idToken]
+ *             properties:
+ *               idToken:
+ *                 type: string
+ *     responses:
+ *       '200':
+ *         description: OK
+ *       '400':
+ *         description: Missing idToken
+ *       '401':
+ *         description: Invalid or expired Firebase ID token
+ *       '403':
+ *         description: Sign-up through Firebase is disabled, the account was deleted, or the email is unverified (EMAIL_VERIFICATION_POLICY=block)
+ *       '404':
+ *         description: Firebase sign-in is not enabled
+ */
+// Firebase sign-in: POST /auth/firebase
+router.post('/auth/firebase', async (req: Request, res: Response) => {
+  try {
+    if (!FIREBASE_AUTH_ENABLED) return res.status(404).json({error: 'Firebase sign-in is not enabled'});
+
+    const {idToken} = (req.body || {}) as Record<string, any>;
+    if (!idToken || typeof idToken !== 'string') return res.status(400).json({error: 'idToken is required'});
+
+    let decoded;
+    try {
+      decoded = await verifyFirebaseIdToken(idToken);
+    } catch (err) {
+      return res.status(401).json({error: 'Invalid or expired token'});
+    }
+
+    const user = await findOrCreateUserForFirebaseToken(decoded);
+    if (EMAIL_VERIFICATION_POLICY === 'block' && !isEmailVerified(user)) {
+      return res.status(403).json({error: 'Email address is not verified'});
+    }
+
+    return res.status(200).json(await completeLogin(user, req));
+  } catch (err: any) {
+    if (err instanceof ExternalIdentityError) return res.status(err.status).json({error: err.message});
+    return res.status(500).json({error: err?.message || 'Internal server error'});
+  }
+});
+
+export default router;
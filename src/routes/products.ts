@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import mongoose from 'mongoose';
 import Products from '../models/Products';
+import authMiddleware, { requirePermission } from '../middleware/auth';
+import { paginate, PaginationError, parsePagination } from '../helpers/pagination';
 
 const router = Router();
 
@@ -23,6 +25,8 @@ const router = Router();
  *                 type: string
  *               price:
  *                 type: number
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '201':
  *         description: Created
@@ -32,8 +36,12 @@ const router = Router();
  *               $ref: '#/components/schemas/Product'
  *       '400':
  *         description: Validation error
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.post('/products', async (req: Request, res: Response) => {
+router.post('/products', authMiddleware, requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const product = await Products.create(req.body);
     return res.status(201).json(product);
@@ -51,14 +59,14 @@ router.post('/products', async (req: Request, res: Response) => {
  *     tags:
  *       - Products
  *     parameters:
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
  *       - in: query
- *         name: limit
+ *         name: sort
  *         schema:
- *           type: integer
- *       - in: query
- *         name: skip
- *         schema:
- *           type: integer
+ *           type: string
+ *         description: "createdAt, name, price, prefix with - for descending (default -createdAt)"
  *       - in: query
  *         name: name
  *         schema:
@@ -81,25 +89,31 @@ router.post('/products', async (req: Request, res: Response) => {
  *                     $ref: '#/components/schemas/Product'
  *                 count:
  *                   type: integer
+ *                 limit:
+ *                   type: integer
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                 prevCursor:
+ *                   type: string
+ *                   nullable: true
+ *       '400':
+ *         description: Invalid pagination parameters
  */
 router.get('/products', async (req: Request, res: Response) => {
   try {
-    const { limit = '50', skip = '0', name, price } = req.query as Record<string, string>;
+    const { name, price } = req.query as Record<string, string>;
+    const pageRequest = parsePagination(req.query, { sortFields: ['createdAt', 'name', 'price'], defaultSort: '-createdAt' });
 
     const filter: Record<string, any> = {};
     if (name !== undefined) filter.name = Number(name);
     if (price !== undefined) filter.price = String(price);
 
-    const items = await Products.find(filter)
-      .sort({ createdAt: -1 })
-      .skip(Number(skip))
-      .limit(Number(limit))
-      .lean();
-
-    const count = await Products.countDocuments(filter);
+    const { items, total, ...page } = await paginate(Products, filter, pageRequest, { project: query => query.lean() });
 
-    res.json({ items, count });
+    res.json({ items, count: total, ...page });
   } catch (err: any) {
+    if (err instanceof PaginationError) return res.status(400).json({ error: err.message });
     res.status(500).json({ error: err.message });
   }
 });
@@ -164,6 +178,8 @@ router.get('/products/:id', async (req: Request, res: Response) => {
  *         application/json:
  *           schema:
  *             type: object
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Updated
@@ -175,8 +191,12 @@ router.get('/products/:id', async (req: Request, res: Response) => {
  *         description: Validation error
  *       '404':
  *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.patch('/products/:id', async (req: Request, res: Response) => {
+router.patch('/products/:id', authMiddleware, requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!mongoose.isValidObjectId(id)) {
@@ -204,6 +224,8 @@ router.patch('/products/:id', async (req: Request, res: Response) => {
  *         required: true
  *         schema:
  *           type: string
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Deleted
@@ -211,8 +233,12 @@ router.patch('/products/:id', async (req: Request, res: Response) => {
  *         description: Invalid id
  *       '404':
  *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.delete('/products/:id', async (req: Request, res: Response) => {
+router.delete('/products/:id', authMiddleware, requirePermission('products:write'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     if (!mongoose.isValidObjectId(id)) {
@@ -2,6 +2,9 @@ import {Router, Request, Response} from 'express';
 import Question, {IQuestionTranslation} from '../models/Question';
 import mongoose from 'mongoose';
 import {EnumLanguageIds, LANGUAGES_TIPS} from '../models/Language';
+import authMiddleware, {requirePermission} from '../middleware/auth';
+import {paginate, PaginationError, parsePagination} from '../helpers/pagination';
+import {unknownCategoryIds} from '../services/categories';
 
 const router = Router();
 
@@ -19,6 +22,14 @@ export function toLangId(value: any): number | null {
   return n;
 }
 
+// categoryId must point at an existing Category; returns the error message or null
+async function categoryIdError(value: any): Promise<string | null> {
+  const categoryId = Number(value);
+  if (!Number.isInteger(categoryId)) return 'categoryId must be an integer';
+  const unknown = await unknownCategoryIds([categoryId]);
+  return unknown.length ? `Unknown categoryId: ${categoryId}` : null;
+}
+
 /**
  * @openapi
  * /questions:
@@ -40,6 +51,7 @@ export function toLangId(value: any): number | null {
  *                 type: boolean
  *               categoryId:
  *                 type: integer
+ *                 description: categoryId of an existing category
  *               translations:
  *                 type: array
  *                 items:
@@ -53,14 +65,20 @@ export function toLangId(value: any): number | null {
  *                       type: string
  *                     answer:
  *                       type: string
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '201':
  *         description: Created
  *       '400':
  *         description: Validation error
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
 // Create a new question with translations
-router.post('/questions', async (req: Request, res: Response) => {
+router.post('/questions', authMiddleware, requirePermission('questions:write'), async (req: Request, res: Response) => {
   try {
     const body = req.body || {};
 
@@ -98,6 +116,11 @@ router.post('/questions', async (req: Request, res: Response) => {
       }
     }
 
+    if (body.categoryId != null) {
+      const categoryError = await categoryIdError(body.categoryId);
+      if (categoryError) return res.status(400).json({error: categoryError});
+    }
+
     const doc = await Question.create({
       questionId: body.questionId,
       active: body.active ?? true,
@@ -140,17 +163,17 @@ router.post('/questions', async (req: Request, res: Response) => {
  *           type: string
  *           enum: ["true","false","all"]
  *         description: Use 'all' to return both active and inactive
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
  *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *       - in: query
- *         name: skip
+ *         name: sort
  *         schema:
- *           type: integer
+ *           type: string
+ *         description: "createdAt, categoryId, prefix with - for descending (default -createdAt)"
  *     responses:
  *       '200':
- *         description: OK
+ *         description: OK, `page`/`pages` are only meaningful in offset mode
  *       '400':
  *         description: Validation error
  */
@@ -161,9 +184,8 @@ router.get('/questions', async (req: Request, res: Response) => {
       languageId,
       categoryId,
       status,
-      limit = '50',
-      skip = '0'
     } = req.query as Record<string, string>;
+    const pageRequest = parsePagination(req.query, {sortFields: ['createdAt', 'categoryId'], defaultSort: '-createdAt'});
 
     const filter: any = {};
 
@@ -195,21 +217,18 @@ router.get('/questions', async (req: Request, res: Response) => {
       filter['translations.languageId'] = lang;
     }
 
-    const questions = await Question.find(filter)
-        .sort({createdAt: -1})
-        .skip(Number(skip))
-        .limit(Number(limit));
-
-
-    const total = await Question.countDocuments(filter);
+    const {items, total, ...page} = await paginate(Question, filter, pageRequest);
+    const skip = pageRequest.skip ?? 0;
 
     res.json({
-      items: questions,
+      items,
       total,
-      page: Math.floor(Number(skip) / Number(limit)) + 1,
-      pages: Math.ceil(total / Number(limit))
+      page: Math.floor(skip / pageRequest.limit) + 1,
+      pages: Math.ceil(total / pageRequest.limit),
+      ...page,
     });
   } catch (err: any) {
+    if (err instanceof PaginationError) return res.status(400).json({error: err.message});
     res.status(500).json({error: err.message});
   }
 });
@@ -290,6 +309,8 @@ router.get('/questions/:id', async (req: Request, res: Response) => {
  *                 type: boolean
  *               categoryId:
  *                 type: integer
+ *                 nullable: true
+ *                 description: categoryId of an existing category, null removes it
  *               translations:
  *                 type: array
  *                 items:
@@ -303,6 +324,8 @@ router.get('/questions/:id', async (req: Request, res: Response) => {
  *                       type: string
  *                     answer:
  *                       type: string
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Updated
@@ -310,9 +333,13 @@ router.get('/questions/:id', async (req: Request, res: Response) => {
  *         description: Validation error
  *       '404':
  *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
 // Update question
-router.patch('/questions/:id', async (req: Request, res: Response) => {
+router.patch('/questions/:id', authMiddleware, requirePermission('questions:write'), async (req: Request, res: Response) => {
   try {
     const {id} = req.params;
 
@@ -329,9 +356,17 @@ router.patch('/questions/:id', async (req: Request, res: Response) => {
 
     // Update base fields if provided
     if (body.active !== undefined) question.active = Boolean(body.active);
+    if (body.categoryId === null) {
+      question.categoryId = undefined;
+    } else if (body.categoryId !== undefined) {
+      const categoryError = await categoryIdError(body.categoryId);
+      if (categoryError) return res.status(400).json({error: categoryError});
+      question.categoryId = Number(body.categoryId);
+    }
 
-    if (!body.translations) {
-      return res.status(404).json({error: "translations is required"});
+    // translations are optional, a PATCH may only change active or categoryId
+    if (body.translations !== undefined && !Array.isArray(body.translations)) {
+      return res.status(400).json({error: 'translations must be an array'});
     }
 
     // Update translations if provided
@@ -410,6 +445,8 @@ router.patch('/questions/:id', async (req: Request, res: Response) => {
  *         required: true
  *         schema:
  *           type: string
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Deleted
@@ -417,9 +454,13 @@ router.patch('/questions/:id', async (req: Request, res: Response) => {
  *         description: Invalid id
  *       '404':
  *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
 // Delete question
-router.delete('/questions/:id', async (req: Request, res: Response) => {
+router.delete('/questions/:id', authMiddleware, requirePermission('questions:write'), async (req: Request, res: Response) => {
   try {
     const {id} = req.params;
 
@@ -461,6 +502,8 @@ router.delete('/questions/:id', async (req: Request, res: Response) => {
  *               status:
  *                 type: boolean
  *                 description: If omitted the endpoint toggles the current status
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Updated
@@ -468,9 +511,13 @@ router.delete('/questions/:id', async (req: Request, res: Response) => {
  *         description: Validation error
  *       '404':
  *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
 // Change status (toggle or set) for a question
-router.post('/questions/change-status/:id', async (req: Request, res: Response) => {
+router.post('/questions/change-status/:id', authMiddleware, requirePermission('questions:write'), async (req: Request, res: Response) => {
   try {
     const {id} = req.params;
 
@@ -1,11 +1,37 @@
-import {Router, Request, Response} from 'express';
+import {Router, Request, Response, NextFunction} from 'express';
+import multer from 'multer';
 import mongoose from 'mongoose';
-import User from '../models/User';
-import authMiddleware, { AuthRequest } from '../middleware/auth';
-import InfoCard from '../models/InfoCard';
+import User, {EnumRoles, ROLES} from '../models/User';
+import authMiddleware, { AuthRequest, requirePermission } from '../middleware/auth';
+import {hasPermission} from '../helpers/permissions';
+import {sendVerificationEmail} from '../services/emailVerification';
+import {unlockAccount} from '../services/loginThrottle';
+import {invalidateUserTokens} from '../services/jwt';
+import {listActiveSessions, revokeSession, toSessionView} from '../services/sessions';
+import {eraseUser, restoreUser, softDeleteUser, USER_RETENTION_DAYS} from '../services/userDeletion';
+import {buildUserExport} from '../services/userExport';
+import {createZip} from '../helpers/zip';
+import {paginate, PaginationError, parsePagination} from '../helpers/pagination';
+import {destroyImage, ImageUploadError, receiveImage, toImageMetadata, uploadImage} from '../services/imageUploads';
+import {avatarTransformation, avatarUpload, withAvatarUrls} from '../services/avatars';
+import {bindRequestContext} from '../services/requestContext';
+import {importUsers, parseImportFile, toRecords, USER_IMPORT_MAX_BYTES, UserImportError} from '../services/userImport';
 
 const router = Router();
 
+const receiveAvatar = receiveImage(avatarUpload, 'avatar');
+
+const importUpload = multer({storage: multer.memoryStorage(), limits: {fileSize: USER_IMPORT_MAX_BYTES, files: 1}});
+
+// multipart field `file`; JSON bodies pass through untouched
+function receiveImportFile(req: Request, res: Response, next: NextFunction) {
+  bindRequestContext(importUpload.single('file'))(req, res, (err: unknown) => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError) return res.status(400).json({error: err.message});
+    return next(err);
+  });
+}
+
 // List users with pagination and basic filters (protected)
 /**
  * @openapi
@@ -15,16 +41,14 @@ const router = Router();
  *     tags:
  *       - Users
  *     parameters:
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
  *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *         description: Max number of users to return
- *       - in: query
- *         name: skip
+ *         name: sort
  *         schema:
- *           type: integer
- *         description: Number of users to skip
+ *           type: string
+ *         description: "createdAt, email, firstName, lastName, prefix with - for descending (default -createdAt)"
  *       - in: query
  *         name: email
  *         schema:
@@ -40,40 +64,130 @@ const router = Router();
  *         schema:
  *           type: string
  *         description: Filter by last name (partial, case-insensitive)
+ *       - in: query
+ *         name: deleted
+ *         schema:
+ *           type: string
+ *           enum: [exclude, include, only]
+ *         description: Soft-deleted users are excluded by default
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       '200':
- *         description: OK
+ *         description: OK, with nextCursor/prevCursor for the neighbouring pages
+ *       '400':
+ *         description: Invalid filter or pagination parameters
  *       '401':
  *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.get('/users', authMiddleware, async (req: AuthRequest, res: Response) => {
+router.get('/users', authMiddleware, requirePermission('users:read'), async (req: AuthRequest, res: Response) => {
   try {
     // req.user is now typed as AuthPayload
     const requester = req.user; // AuthPayload | undefined
 
     console.log('Requester:', requester);
 
-    const {limit = '50', skip = '0', email, firstName, lastName} = req.query as Record<string, string>;
+    const {email, firstName, lastName, deleted = 'exclude'} = req.query as Record<string, string>;
+    const pageRequest = parsePagination(req.query, {sortFields: ['createdAt', 'email', 'firstName', 'lastName'], defaultSort: '-createdAt'});
+    if (!['exclude', 'include', 'only'].includes(deleted)) {
+      return res.status(400).json({error: 'deleted must be one of exclude, include, only'});
+    }
 
     const filter: Record<string, any> = {};
     if (email) filter.email = String(email).toLowerCase();
     if (firstName) filter.firstName = new RegExp(String(firstName), 'i');
     if (lastName) filter.lastName = new RegExp(String(lastName), 'i');
+    if (deleted === 'only') filter.deletedAt = {$ne: null};
+    // exclude is applied by the User model itself
+    const queryOptions = {withDeleted: deleted === 'include'};
 
-    const items = await User.find(filter)
-        .select('-password')
-        .populate('flats')
-        .sort({createdAt: -1})
-        .skip(Number(skip))
-        .limit(Number(limit))
-        .lean();
+    const {items, total, ...page} = await paginate(User, filter, pageRequest, {
+      queryOptions,
+      project: query => query.select('-password').populate('flats').lean(),
+    });
 
-    const count = await User.countDocuments(filter);
+    res.json({items: items.map(withAvatarUrls), count: total, ...page, requester});
+  } catch (err: any) {
+    if (err instanceof PaginationError) return res.status(400).json({error: err.message});
+    res.status(500).json({error: err.message});
+  }
+});
 
-    res.json({items, count, requester});
+// Bulk import users from CSV or JSON (admin only)
+/**
+ * @openapi
+ * /users/import:
+ *   post:
+ *     summary: Import users from a CSV or JSON file (admin only)
+ *     description: >
+ *       Each row is validated like POST /auth/register (email, firstName, lastName, age 0-150, address,
+ *       optional birthDate) and may set `roles` when the caller holds roles:manage. Passwords are not
+ *       accepted: every created user receives an invitation email to choose one (POST /auth/accept-invitation).
+ *       Emails already registered or repeated in the file are skipped. At most USER_IMPORT_MAX_ROWS (1000) rows.
+ *       With dryRun nothing is written and no email is sent.
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: CSV with a header row (roles separated by ; or |), or a JSON array
+ *               dryRun:
+ *                 type: boolean
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dryRun:
+ *                 type: boolean
+ *               users:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: >
+ *           Report with counts and one entry per row: `{row, email, status: created|skipped|failed, id?,
+ *           invitationSent?, errors?}`
+ *       '400':
+ *         description: Unreadable file, no rows or too many rows
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+router.post('/users/import', authMiddleware, requirePermission('users:write'), receiveImportFile, async (req: AuthRequest, res: Response) => {
+  try {
+    const body = (req.body || {}) as Record<string, any>;
+    const records = req.file ? parseImportFile(req.file) : toRecords(body);
+
+    const dryRunFlag = req.query.dryRun ?? body.dryRun;
+    const dryRun = dryRunFlag === true || dryRunFlag === 'true' || dryRunFlag === '1';
+
+    // API keys need the scope as well, like requirePermission
+    const user = req.user!;
+    const allowRoles = hasPermission(user.roles, 'roles:manage') && (!user.scopes || user.scopes.includes('roles:manage'));
+
+    const report = await importUsers(records, {dryRun, invitedBy: user.id, allowRoles});
+    res.json(report);
   } catch (err: any) {
+    if (err instanceof UserImportError) return res.status(400).json({error: err.message});
     res.status(500).json({error: err.message});
   }
 });
@@ -93,6 +207,8 @@ router.get('/users', authMiddleware, async (req: AuthRequest, res: Response) =>
  *         schema:
  *           type: string
  *         description: User id
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: OK
@@ -100,8 +216,12 @@ router.get('/users', authMiddleware, async (req: AuthRequest, res: Response) =>
  *         description: Invalid id
  *       '404':
  *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.get('/users/:id', async (req: Request, res: Response) => {
+router.get('/users/:id', authMiddleware, requirePermission('users:read', {allowSelf: true}), async (req: Request, res: Response) => {
   try {
     const {id} = req.params;
     if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
@@ -109,13 +229,13 @@ router.get('/users/:id', async (req: Request, res: Response) => {
     const user = await User.findById(id).select('-password').populate('flats');
     if (!user) return res.status(404).json({error: 'User not found'});
 
-    res.json(user);
+    res.json(withAvatarUrls(user.toJSON()));
   } catch (err: any) {
     res.status(500).json({error: err.message});
   }
 });
 
-// Update user (uses save hook to hash password if provided)
+// Update user (passwords are changed through POST /auth/change-password)
 /**
  * @openapi
  * /users/{id}:
@@ -149,25 +269,37 @@ router.get('/users/:id', async (req: Request, res: Response) => {
  *                 format: date
  *               address:
  *                 type: object
- *               password:
- *                 type: string
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Updated
  *       '400':
- *         description: Validation error
+ *         description: Validation error, or `password` was sent (use /auth/change-password)
  *       '404':
  *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.patch('/users/:id', async (req: Request, res: Response) => {
+router.patch('/users/:id', authMiddleware, requirePermission('users:write', {allowSelf: true}), async (req: AuthRequest, res: Response) => {
   try {
     const {id} = req.params;
     if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
 
-    const user = await User.findById(id).select('+password');
+    if (req.body && 'password' in req.body) {
+      return res.status(400).json({error: 'password cannot be changed here, use POST /auth/change-password'});
+    }
+    // changing the login email would hand the account to whoever controls the new address
+    if (req.user?.actorId && req.body && 'email' in req.body) {
+      return res.status(403).json({error: 'Not available while impersonating a user'});
+    }
+
+    const user = await User.findById(id);
     if (!user) return res.status(404).json({error: 'User not found'});
 
-    const allowed = ['age', 'email', 'firstName', 'lastName', 'birthDate', 'address', 'password'] as const;
+    const allowed = ['age', 'email', 'firstName', 'lastName', 'birthDate', 'address'] as const;
     for (const key of Object.keys(req.body)) {
       if ((allowed as readonly string[]).includes(key)) {
         // @ts-ignore
@@ -175,14 +307,20 @@ router.patch('/users/:id', async (req: Request, res: Response) => {
       }
     }
 
-    await user.save(); // triggers pre-save hash if password modified
+    // A new address has to be verified again
+    const emailChanged = user.isModified('email');
+    if (emailChanged) {
+      user.emailVerified = false;
+      user.emailVerifiedAt = undefined;
+    }
+
+    await user.save();
 
-    const sanitized = user.toObject();
-    // ensure password omitted (transform also removes it, but be explicit)
-    // @ts-ignore
-    delete sanitized.password;
+    if (emailChanged) {
+      await sendVerificationEmail(user).catch(err => console.error('Failed to send verification email:', err));
+    }
 
-    res.json(sanitized);
+    res.json(user.toObject());
   } catch (err: any) {
     res.status(400).json({error: err.message});
   }
@@ -193,7 +331,10 @@ router.patch('/users/:id', async (req: Request, res: Response) => {
  * @openapi
  * /users/{id}:
  *   delete:
- *     summary: Delete a user
+ *     summary: Soft-delete a user
+ *     description: >
+ *       The user is hidden from every endpoint and signed out, and their API keys are revoked.
+ *       It can be restored until it is purged USER_RETENTION_DAYS (default 30) later.
  *     tags:
  *       - Users
  *     parameters:
@@ -202,6 +343,8 @@ router.patch('/users/:id', async (req: Request, res: Response) => {
  *         required: true
  *         schema:
  *           type: string
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: Deleted
@@ -209,14 +352,321 @@ router.patch('/users/:id', async (req: Request, res: Response) => {
  *         description: Invalid id
  *       '404':
  *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+router.delete('/users/:id', authMiddleware, requirePermission('users:delete'), async (req: AuthRequest, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+    if (String(id) === String(req.user!.id)) return res.status(400).json({error: 'You cannot delete your own account'});
+
+    const user = await softDeleteUser(id, req.user!.id);
+    if (!user) return res.status(404).json({error: 'User not found'});
+
+    const purgeAfter = new Date(user.deletedAt!.getTime() + USER_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    res.json({message: 'Deleted', deletedAt: user.deletedAt, purgeAfter});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Restore a soft-deleted user
+/**
+ * @openapi
+ * /users/{id}/restore:
+ *   post:
+ *     summary: Restore a soft-deleted user that has not been purged yet
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Restored
+ *       '400':
+ *         description: Invalid id
+ *       '404':
+ *         description: No deleted user with this id
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+router.post('/users/:id/restore', authMiddleware, requirePermission('users:delete'), async (req: Request, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+
+    const user = await restoreUser(id);
+    if (!user) return res.status(404).json({error: 'Deleted user not found'});
+
+    res.json(user);
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Export personal data (data access request)
+/**
+ * @openapi
+ * /users/{id}/export:
+ *   get:
+ *     summary: Download everything stored about a user (own data, or any user with users:read)
+ *     description: >
+ *       JSON document with the profile, assigned flats, metadata of uploaded images, sessions,
+ *       API keys (without secrets) and impersonations. With `format=zip` the same JSON is
+ *       returned inside a ZIP archive.
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, zip]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Export as attachment
+ *         content:
+ *           application/json: {}
+ *           application/zip: {}
+ *       '400':
+ *         description: Invalid id or format
+ *       '404':
+ *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+router.get('/users/:id/export', authMiddleware, requirePermission('users:read', {allowSelf: true}), async (req: Request, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+
+    const format = String(req.query.format || 'json');
+    if (format !== 'json' && format !== 'zip') return res.status(400).json({error: 'format must be json or zip'});
+
+    const data = await buildUserExport(id);
+    if (!data) return res.status(404).json({error: 'User not found'});
+
+    const filename = `user-${id}-export`;
+    const json = JSON.stringify(data, null, 2);
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (format === 'zip') {
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.zip"`);
+      return res.send(createZip([{name: `${filename}.json`, data: json}]));
+    }
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+    return res.send(json);
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Erase personal data (erasure request)
+/**
+ * @openapi
+ * /users/{id}/erase:
+ *   post:
+ *     summary: Irreversibly anonymize a user (own account, or any user with users:delete)
+ *     description: >
+ *       Profile fields, credentials, linked identities, sessions and API keys are removed.
+ *       The user document itself stays as an anonymous placeholder so flat assignments
+ *       keep pointing at a valid user. Not available while impersonating.
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [confirm]
+ *             properties:
+ *               confirm:
+ *                 type: boolean
+ *                 example: true
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Erased
+ *       '400':
+ *         description: Invalid id or missing confirmation
+ *       '404':
+ *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+router.post('/users/:id/erase', authMiddleware, requirePermission('users:delete', {allowSelf: true}), async (req: AuthRequest, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+    if (req.user!.actorId) return res.status(403).json({error: 'Not available while impersonating a user'});
+    if (req.body?.confirm !== true) {
+      return res.status(400).json({error: 'Erasure cannot be undone, send {"confirm": true} to proceed'});
+    }
+
+    const user = await eraseUser(id);
+    if (!user) return res.status(404).json({error: 'User not found'});
+
+    res.json({message: 'Personal data erased', id: String(user._id), erasedAt: user.erasedAt});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Upload or replace a user's avatar
+/**
+ * @openapi
+ * /users/{id}/avatar:
+ *   put:
+ *     summary: Upload or replace the avatar (own, or any user with users:write)
+ *     description: >
+ *       JPEG, PNG, WebP or GIF up to AVATAR_MAX_BYTES (5 MB). The image is cropped to a square,
+ *       around the face unless a crop box is sent. The previous avatar is deleted.
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [avatar]
+ *             properties:
+ *               avatar:
+ *                 type: string
+ *                 format: binary
+ *               cropX:
+ *                 type: integer
+ *               cropY:
+ *                 type: integer
+ *               cropWidth:
+ *                 type: integer
+ *               cropHeight:
+ *                 type: integer
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Avatar metadata and URLs in several sizes
+ *       '400':
+ *         description: Missing, invalid or too large image, or invalid crop box
+ *       '404':
+ *         description: Not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+router.put('/users/:id/avatar', authMiddleware, requirePermission('users:write', {allowSelf: true}), receiveAvatar, async (req: AuthRequest, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+
+    const file = req.file;
+    if (!file) return res.status(400).json({error: 'No image uploaded. Use form-data with field name "avatar".'});
+
+    const user = await User.findById(id);
+    if (!user) return res.status(404).json({error: 'User not found'});
+
+    const transformation = avatarTransformation(req.body);
+    const up = await uploadImage(file, {folder: 'avatars', transformation});
+
+    const previous = user.avatar;
+    user.avatar = toImageMetadata(up, file, req.user!.id);
+    await user.save();
+
+    // only once the new avatar is stored, so a failed save keeps the old one usable
+    destroyImage(previous);
+
+    const {avatar, avatarUrls} = withAvatarUrls(user.toJSON());
+    res.json({avatar, avatarUrls});
+  } catch (err: any) {
+    if (err instanceof ImageUploadError) return res.status(400).json({error: err.message});
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Remove a user's avatar
+/**
+ * @openapi
+ * /users/{id}/avatar:
+ *   delete:
+ *     summary: Remove the avatar (own, or any user with users:write)
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Avatar removed
+ *       '400':
+ *         description: Invalid id
+ *       '404':
+ *         description: User or avatar not found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.delete('/users/:id', async (req: Request, res: Response) => {
+router.delete('/users/:id/avatar', authMiddleware, requirePermission('users:write', {allowSelf: true}), async (req: Request, res: Response) => {
   try {
     const {id} = req.params;
     if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
-    const user = await User.findByIdAndDelete(id);
+
+    const user = await User.findById(id);
     if (!user) return res.status(404).json({error: 'User not found'});
-    res.json({message: 'Deleted'});
+    if (!user.avatar) return res.status(404).json({error: 'User has no avatar'});
+
+    const previous = user.avatar;
+    user.avatar = null;
+    await user.save();
+    destroyImage(previous);
+
+    res.json({message: 'Avatar removed'});
   } catch (err: any) {
     res.status(500).json({error: err.message});
   }
@@ -236,122 +686,406 @@ router.delete('/users/:id', async (req: Request, res: Response) => {
  *         schema:
  *           type: integer
  *         description: Return users with age less than this value
+ *       - $ref: '#/components/parameters/PageLimit'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - $ref: '#/components/parameters/PageSkip'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *         description: "createdAt, email, lastName, prefix with - for descending (default -createdAt)"
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       '200':
  *         description: OK
+ *       '400':
+ *         description: Invalid pagination parameters
  *       '404':
  *         description: No users found
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
  */
-router.get('/users-with-flats', async (req: Request, res: Response) => {
+router.get('/users-with-flats', authMiddleware, requirePermission('users:read'), async (req: Request, res: Response) => {
   try {
     const ageFilter = req.query.age ? {age: {$lt: Number(req.query.age)}} : {};
+    const pageRequest = parsePagination(req.query, {sortFields: ['createdAt', 'email', 'lastName'], defaultSort: '-createdAt'});
 
-    const users = await User.find(ageFilter)
-        .populate('flats')
-        .select('-password')
-        .exec();
+    const {items: users, total, ...page} = await paginate(User, ageFilter, pageRequest, {
+      project: query => query.populate('flats').select('-password'),
+    });
 
-    if (!users || users.length === 0) {
+    if (total === 0) {
       return res.status(404).json({error: 'No users found'});
     }
 
     res.json({
       users,
-      count: users.length
+      count: users.length,
+      total,
+      ...page,
     });
   } catch (error: any) {
+    if (error instanceof PaginationError) return res.status(400).json({error: error.message});
     res.status(500).json({error: error.message});
   }
 });
 
-// Create InfoCard (payload shape documented in request)
-router.post('/users/info-card', async (req: Request, res: Response) => {
+// Grant a role to a user (admin only)
+/**
+ * @openapi
+ * /users/{id}/roles:
+ *   post:
+ *     summary: Grant a role to a user (admin only)
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [admin, editor, agent, user]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Role granted, returns the updated roles. The user's existing tokens are invalidated.
+ *       '400':
+ *         description: Validation error
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ *       '404':
+ *         description: Not found
+ */
+router.post('/users/:id/roles', authMiddleware, requirePermission('roles:manage'), async (req: Request, res: Response) => {
   try {
-    const body = req.body || {};
-    const infoCardId = body.id ?? body.infoCardId;
-    if (infoCardId == null) return res.status(400).json({ error: 'id is required in body' });
-
-    // Ensure numeric
-    const numericId = Number(infoCardId);
-    if (Number.isNaN(numericId)) return res.status(400).json({ error: 'id must be a number' });
-
-    // Prevent duplicate infoCardId
-    const exists = await InfoCard.findOne({ infoCardId: numericId });
-    if (exists) return res.status(400).json({ error: 'InfoCard with this id already exists' });
-
-    const status = body.status == null ? true : Boolean(body.status);
-    const imageData = body.imageData ?? null;
-    const categoryIdList = Array.isArray(body.categoryIdList) ? body.categoryIdList.map(Number) : [];
-
-
-    const normalizeDetail = (d: any) => {
-      const detail: any = {
-        infoCardDetailId: d?.infoCardDetailId != null ? Number(d.infoCardDetailId) : undefined,
-        infoCardId: d?.infoCardId != null ? Number(d.infoCardId) : numericId,
-        languageId: d?.languageId != null ? Number(d.languageId) : undefined,
-        title: d?.title,
-        subTitle: d?.subTitle,
-        status: d?.status == null ? true : Boolean(d.status),
-      };
-
-      return detail;
-    };
-
-    const details = Array.isArray(body.details) ? body.details.map(normalizeDetail) : [];
-
-    const doc = await InfoCard.create({
-      infoCardId: numericId,
-      status,
-      imageData,
-      categoryIdList,
-      details,
-    });
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+
+    const role = req.body?.role;
+    if (!(ROLES as readonly string[]).includes(role)) {
+      return res.status(400).json({error: `role must be one of: ${ROLES.join(', ')}`});
+    }
+
+    const previous = await User.findByIdAndUpdate(id, {$addToSet: {roles: role}}).select('roles').lean();
+    if (!previous) return res.status(404).json({error: 'User not found'});
+
+    // live access and refresh tokens still carry the old roles
+    const granted = !previous.roles?.includes(role);
+    if (granted) await invalidateUserTokens(id);
+    const roles = granted ? [...(previous.roles || []), role] : previous.roles;
+
+    res.json({id: previous._id, roles});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Revoke a role from a user (admin only)
+/**
+ * @openapi
+ * /users/{id}/roles/{role}:
+ *   delete:
+ *     summary: Revoke a role from a user (admin only)
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: role
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [admin, editor, agent, user]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Role revoked, returns the updated roles. The user's existing tokens are invalidated.
+ *       '400':
+ *         description: Validation error
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ *       '404':
+ *         description: Not found
+ */
+router.delete('/users/:id/roles/:role', authMiddleware, requirePermission('roles:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const {id, role} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+
+    if (!(ROLES as readonly string[]).includes(role)) {
+      return res.status(400).json({error: `role must be one of: ${ROLES.join(', ')}`});
+    }
+
+    // Prevent admins from locking themselves out
+    if (role === EnumRoles.ADMIN && String(req.user?.id) === String(id)) {
+      return res.status(400).json({error: 'You cannot revoke your own admin role'});
+    }
+
+    const previous = await User.findByIdAndUpdate(id, {$pull: {roles: role}}).select('roles').lean();
+    if (!previous) return res.status(404).json({error: 'User not found'});
+
+    // live access and refresh tokens still carry the revoked role
+    const roles = (previous.roles || []).filter(r => r !== role);
+    if (roles.length !== (previous.roles || []).length) await invalidateUserTokens(id);
+
+    res.json({id: previous._id, roles});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+// Clear failed login counters and lockout of a user (admin only)
+/**
+ * @openapi
+ * /users/{id}/unlock:
+ *   post:
+ *     summary: Unlock a user locked out after failed logins (admin only)
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Unlocked
+ *       '400':
+ *         description: Invalid id
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ *       '404':
+ *         description: Not found
+ */
+router.post('/users/:id/unlock', authMiddleware, requirePermission('users:write'), async (req: Request, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+
+    const user = await User.findById(id);
+    if (!user) return res.status(404).json({error: 'User not found'});
 
-    res.status(201).json(doc);
+    await unlockAccount(user.email);
+    res.json({message: 'Unlocked'});
   } catch (err: any) {
-    res.status(400).json({ error: err.message });
+    res.status(500).json({error: err.message});
   }
 });
 
-// Update InfoCard by numeric id (body same as create, partial allowed)
-router.patch('/users/info-card/:id', async (req: Request, res: Response) => {
+// Force MFA for a single user regardless of roles (admin only)
+/**
+ * @openapi
+ * /users/{id}/mfa-required:
+ *   put:
+ *     summary: Force or stop forcing MFA for a user (admin only)
+ *     description: Users with a role listed in MFA_REQUIRED_ROLES always need MFA, this flag adds individual users.
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               required:
+ *                 type: boolean
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Updated. When the setting changes, the user's existing tokens are invalidated.
+ *       '400':
+ *         description: Validation error
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ *       '404':
+ *         description: Not found
+ */
+router.put('/users/:id/mfa-required', authMiddleware, requirePermission('users:write'), async (req: Request, res: Response) => {
   try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+    if (typeof req.body?.required !== 'boolean') return res.status(400).json({error: 'required must be a boolean'});
 
-    console.log("eeee")
-    const paramId = req.params.id;
-    const numericId = Number(paramId);
-    if (Number.isNaN(numericId)) return res.status(400).json({ error: 'Invalid id param' });
+    const previous = await User.findByIdAndUpdate(id, {mfaRequired: req.body.required}).select('mfaRequired mfaEnabled').lean();
+    if (!previous) return res.status(404).json({error: 'User not found'});
 
-    const existing = await InfoCard.findOne({ infoCardId: numericId });
-    if (!existing) return res.status(404).json({ error: 'InfoCard not found' });
+    // the demotion of unenrolled users is baked into tokens already issued
+    if (Boolean(previous.mfaRequired) !== req.body.required) await invalidateUserTokens(id);
 
-    const body = req.body || {};
+    res.json({id: previous._id, mfaRequired: req.body.required, mfaEnabled: previous.mfaEnabled});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
 
-    const normalizeDetail = (d: any) => {
-      const detail: any = {
-        infoCardDetailId: d?.infoCardDetailId != null ? Number(d.infoCardDetailId) : undefined,
-        infoCardId: d?.infoCardId != null ? Number(d.infoCardId) : numericId,
-        languageId: d?.languageId != null ? Number(d.languageId) : undefined,
-        title: d?.title,
-        subTitle: d?.subTitle,
-        status: d?.status == null ? true : Boolean(d.status),
-      };
+// Reset MFA of a user who lost their authenticator and recovery codes (admin only)
+/**
+ * @openapi
+ * /users/{id}/mfa:
+ *   delete:
+ *     summary: Reset a user's MFA enrollment and sign them out everywhere (admin only)
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: MFA reset
+ *       '400':
+ *         description: Invalid id
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ *       '404':
+ *         description: Not found
+ */
+router.delete('/users/:id/mfa', authMiddleware, requirePermission('users:write'), async (req: Request, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
 
-      return detail;
-    };
+    const user = await User.findByIdAndUpdate(
+        id,
+        {$set: {mfaEnabled: false}, $unset: {mfaSecret: '', mfaPendingSecret: '', mfaRecoveryCodes: '', mfaLastUsedStep: ''}},
+        {new: true}
+    );
+    if (!user) return res.status(404).json({error: 'User not found'});
 
-    const update: any = {};
-    if (body.status != null) update.status = Boolean(body.status);
-    if (body.imageData != null) update.imageData = body.imageData;
-    if (Array.isArray(body.categoryIdList)) update.categoryIdList = body.categoryIdList.map(Number);
-    if (Array.isArray(body.details)) update.details = body.details.map(normalizeDetail);
+    await invalidateUserTokens(String(user._id));
+    res.json({message: 'MFA reset'});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
+
+// List active sessions of any user (admin only)
+/**
+ * @openapi
+ * /users/{id}/sessions:
+ *   get:
+ *     summary: List active sessions (devices) of a user (admin only)
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: OK
+ *       '400':
+ *         description: Invalid id
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ */
+router.get('/users/:id/sessions', authMiddleware, requirePermission('users:write'), async (req: Request, res: Response) => {
+  try {
+    const {id} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+
+    const sessions = await listActiveSessions(id);
+    const items = sessions.map(session => toSessionView(session));
+    res.json({items, count: items.length});
+  } catch (err: any) {
+    res.status(500).json({error: err.message});
+  }
+});
 
-    Object.assign(existing, update);
-    await existing.save();
+// Revoke a session of any user (admin only)
+/**
+ * @openapi
+ * /users/{id}/sessions/{sessionId}:
+ *   delete:
+ *     summary: Sign out one session of a user (admin only)
+ *     tags:
+ *       - Users
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       '200':
+ *         description: Session revoked
+ *       '400':
+ *         description: Invalid id
+ *       '401':
+ *         description: Unauthorized
+ *       '403':
+ *         description: Forbidden
+ *       '404':
+ *         description: Session not found
+ */
+router.delete('/users/:id/sessions/:sessionId', authMiddleware, requirePermission('users:write'), async (req: Request, res: Response) => {
+  try {
+    const {id, sessionId} = req.params;
+    if (!mongoose.isValidObjectId(id)) return res.status(400).json({error: 'Invalid user id'});
+    if (!mongoose.isValidObjectId(sessionId)) return res.status(400).json({error: 'Invalid session id'});
+
+    const revoked = await revokeSession(id, sessionId);
+    if (!revoked) return res.status(404).json({error: 'Session not found'});
 
-    res.json(existing);
+    res.json({message: 'Session revoked'});
   } catch (err: any) {
-    res.status(400).json({ error: err.message });
+    res.status(500).json({error: err.message});
   }
 });
 
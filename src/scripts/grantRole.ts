@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import User, {ROLES} from '../models/User';
+
+dotenv.config();
+
+// Bootstraps roles from the command line, e.g. the very first admin:
+// npm run grant:role -- admin@example.com admin
+
+// no fallback: the connection string holds credentials and must come from the environment
+const MONGODB_URI = process.env.MONGODB_URI;
+const MONGODB_DB = process.env.MONGODB_DB || 'bk';
+
+async function run() {
+  if (!MONGODB_URI) {
+    console.error('MONGODB_URI is not set');
+    process.exit(1);
+  }
+
+  const [rawEmail, role] = process.argv.slice(2);
+  if (!rawEmail || !(ROLES as readonly string[]).includes(role)) {
+    console.error(`Usage: grantRole <email> <${ROLES.join('|')}>`);
+    process.exit(1);
+  }
+
+  await mongoose.connect(MONGODB_URI, { dbName: MONGODB_DB });
+  console.log(`Connected to MongoDB (db: ${MONGODB_DB})`);
+
+  const email = rawEmail.toLowerCase().trim();
+  const user = await User.findOneAndUpdate({ email }, { $addToSet: { roles: role } }, { new: true });
+  if (!user) {
+    console.error(`User ${email} not found`);
+  } else {
+    console.log(`Roles of ${email}: ${user.roles.join(', ')}`);
+  }
+
+  await mongoose.disconnect();
+}
+
+run().catch(err => {
+  console.error('Granting role failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,115 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// One-off: converts the free-form InfoCard.imageData into the typed `image`.
+//   npm run migrate:info-card-images              migrate
+//   npm run migrate:info-card-images -- --dry-run only report what would happen
+// URLs and data: URIs are uploaded to Cloudinary (folder info-cards); images that
+// already live in our Cloudinary account are only described, not copied. Values
+// that can't be converted are left in place and listed at the end.
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const MONGODB_DB = process.env.MONGODB_DB || 'bk';
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// keys under which clients stored the address of the picture
+const URL_KEYS = ['secure_url', 'secureUrl', 'url', 'src', 'uri', 'imageUrl'];
+const PUBLIC_ID_KEYS = ['public_id', 'publicId', 'cloudinaryPublicId'];
+
+function firstString(value: Record<string, any>, keys: string[]): string | undefined {
+  const key = keys.find(k => typeof value[k] === 'string' && value[k].trim());
+  return key ? value[key].trim() : undefined;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value == null || value === '' || (typeof value === 'object' && Object.keys(value as object).length === 0);
+}
+
+async function run() {
+  if (!MONGODB_URI) {
+    console.error('MONGODB_URI is not set');
+    process.exit(1);
+  }
+
+  const {default: InfoCard} = await import('../models/InfoCard');
+  const {default: cloudinary} = await import('../services/cloudinary');
+  const {toImageMetadata, uploadImageFromSource} = await import('../services/imageUploads');
+  const {guessContentType} = await import('../helpers/cloudinary');
+
+  await mongoose.connect(MONGODB_URI, {dbName: MONGODB_DB});
+  console.log(`Connected to MongoDB (db: ${MONGODB_DB})${DRY_RUN ? ', dry run' : ''}`);
+
+  // imageData is no longer in the schema, read it from the collection
+  const cards = await InfoCard.collection
+      .find({imageData: {$exists: true}}, {projection: {infoCardId: 1, imageData: 1, image: 1}})
+      .toArray();
+
+  const ownCloud = `res.cloudinary.com/${cloudinary.config().cloud_name}/`;
+  const counts = {migrated: 0, cleared: 0, failed: 0};
+  const failures: string[] = [];
+
+  for (const card of cards) {
+    const label = `InfoCard ${card.infoCardId}`;
+    const data = card.imageData;
+    // strict: false, the update unsets a path the schema doesn't know anymore
+    const finish = (set: Record<string, any> = {}) => DRY_RUN ? Promise.resolve() : InfoCard.updateOne(
+        {_id: card._id},
+        {...(Object.keys(set).length ? {$set: set} : {}), $unset: {imageData: 1}},
+        {strict: false}
+    );
+
+    try {
+      if (isEmpty(data) || card.image) {
+        await finish();
+        counts.cleared++;
+        console.log(`${label}: ${card.image ? 'already has an image' : 'empty imageData'}, ${DRY_RUN ? 'would remove' : 'removed'} imageData`);
+        continue;
+      }
+
+      const source = typeof data === 'string' ? data.trim() : firstString(data, URL_KEYS);
+      if (!source || !/^(https?:|data:image\/)/i.test(source)) {
+        throw new Error(`no image URL found in ${JSON.stringify(data).slice(0, 200)}`);
+      }
+
+      const publicId = typeof data === 'object' ? firstString(data, PUBLIC_ID_KEYS) : undefined;
+      let image;
+      if (publicId && source.includes(ownCloud)) {
+        const format = source.split('?')[0].split('.').pop() || '';
+        image = {
+          url: source,
+          filename: publicId.split('/').pop() + (format ? `.${format}` : ''),
+          size: Number(data.bytes ?? data.size ?? 0),
+          contentType: guessContentType(format),
+          storage: 'cloudinary' as const,
+          cloudinaryPublicId: publicId,
+        };
+      } else if (DRY_RUN) {
+        console.log(`${label}: would upload ${source.slice(0, 80)}`);
+        counts.migrated++;
+        continue;
+      } else {
+        image = toImageMetadata(await uploadImageFromSource(source, {folder: 'info-cards'}));
+      }
+
+      await finish({image: {...image, alt: []}});
+      counts.migrated++;
+      console.log(`${label}: migrated to ${image.url}`);
+    } catch (err: any) {
+      counts.failed++;
+      failures.push(`${label}: ${err?.message || err}`);
+    }
+  }
+
+  console.log(`Done: ${counts.migrated} migrated, ${counts.cleared} cleared, ${counts.failed} left untouched`);
+  failures.forEach(line => console.log(`  ${line}`));
+
+  await mongoose.disconnect();
+}
+
+run().catch(err => {
+  console.error('Migrating info card images failed:', err);
+  process.exit(1);
+});
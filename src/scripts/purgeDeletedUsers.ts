@@ -0,0 +1,33 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// For running the purge from cron instead of the app (USER_PURGE_INTERVAL_HOURS=0):
+// npm run purge:users
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const MONGODB_DB = process.env.MONGODB_DB || 'bk';
+
+async function run() {
+  if (!MONGODB_URI) {
+    console.error('MONGODB_URI is not set');
+    process.exit(1);
+  }
+
+  // imported after dotenv so USER_RETENTION_DAYS from .env is honoured
+  const {purgeDeletedUsers, USER_RETENTION_DAYS} = await import('../services/userDeletion');
+
+  await mongoose.connect(MONGODB_URI, { dbName: MONGODB_DB });
+  console.log(`Connected to MongoDB (db: ${MONGODB_DB})`);
+
+  const count = await purgeDeletedUsers();
+  console.log(`Purged ${count} user(s) deleted more than ${USER_RETENTION_DAYS} days ago`);
+
+  await mongoose.disconnect();
+}
+
+run().catch(err => {
+  console.error('Purging users failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import ApiKey from '../models/ApiKey';
+import User, {IUser} from '../models/User';
+import {AuthPrincipal} from '../types/auth';
+import {hashToken} from './jwt';
+import {toUserForToken} from './authTokens';
+
+const API_KEY_PREFIX = 'bk_';
+// lastUsedAt is only written when older than this, to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return {key, prefix: key.slice(0, API_KEY_PREFIX.length + 8), keyHash: hashToken(key)};
+}
+
+// Resolves a raw API key to a principal, or null when the key is unknown,
+// revoked, expired or its owner no longer exists.
+export async function authenticateApiKey(key: string): Promise<AuthPrincipal | null> {
+  const apiKey = await ApiKey.findOne({keyHash: hashToken(key), revokedAt: null}).lean();
+  if (!apiKey) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return null;
+
+  // everything toUserForToken looks at to demote roles
+  const owner = await User.findById(apiKey.ownerId).select('roles tokenVersion emailVerified mfaEnabled mfaRequired').lean();
+  if (!owner) return null;
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    ApiKey.updateOne({_id: apiKey._id}, {lastUsedAt: new Date()}).catch(() => void 0);
+  }
+
+  return {
+    // the owner's current roles, demoted the same way as for a login, so a key
+    // never holds more than the owner's own tokens would
+    ...toUserForToken(owner as IUser),
+    apiKeyId: String(apiKey._id),
+    scopes: apiKey.scopes || [],
+  };
+}
@@ -0,0 +1,17 @@
+import {Types} from 'mongoose';
+import AuditLog from '../models/AuditLog';
+
+// Erasure and purge: the entries stay (who changed what, when) but lose the
+// user's personal data. Goes through the collection because the model refuses
+// to modify audit entries.
+export async function redactAuditTrail(userId: Types.ObjectId | string): Promise<void> {
+  const id = new Types.ObjectId(String(userId));
+  await AuditLog.collection.updateMany(
+      {entityType: 'User', entityId: id},
+      {$set: {before: null, after: null, redactedAt: new Date()}}
+  );
+  await AuditLog.collection.updateMany(
+      {actorId: id},
+      {$unset: {ip: 1, userAgent: 1}}
+  );
+}
@@ -0,0 +1,44 @@
+import {Request} from 'express';
+import {IUser, EnumRoles} from '../models/User';
+import {IUserForToken} from '../types/auth';
+import {signAccessToken, signMfaChallengeToken, signRefreshToken} from './jwt';
+import {requestMeta, startSession} from './sessions';
+import {EMAIL_VERIFICATION_POLICY, isEmailVerified} from './emailVerification';
+import {isMfaRequired} from './mfa';
+
+export function toUserForToken(user: IUser): IUserForToken {
+  const userForToken: IUserForToken = {
+    id: String(user._id),
+    // documents created before roles existed have no roles field
+    roles: user.roles?.length ? user.roles : [EnumRoles.USER],
+    tokenVersion: user.tokenVersion ?? 0,
+  };
+  if (EMAIL_VERIFICATION_POLICY === 'restrict' && !isEmailVerified(user)) {
+    userForToken.roles = [EnumRoles.USER];
+  }
+  // privileged roles stay inactive until the user has enrolled in MFA
+  if (isMfaRequired(user) && !user.mfaEnabled) {
+    userForToken.roles = [EnumRoles.USER];
+  }
+  return userForToken;
+}
+
+// Starts a new session (refresh token family) for a completed login
+export async function issueTokens(user: IUser, req: Request) {
+  const familyId = await startSession(user._id, requestMeta(req));
+  const userForToken = {...toUserForToken(user), sessionId: familyId};
+  return {
+    token: signAccessToken(userForToken),
+    refresh_token: await signRefreshToken(userForToken, familyId),
+    ...(isMfaRequired(user) && !user.mfaEnabled ? {mfaEnrollmentRequired: true} : {}),
+  };
+}
+
+// For logins that already proved the first factor some other way (external
+// identity providers): users with MFA still have to pass /auth/login/mfa.
+export async function completeLogin(user: IUser, req: Request) {
+  if (user.mfaEnabled) {
+    return {mfaRequired: true, mfa_token: signMfaChallengeToken(String(user._id))};
+  }
+  return issueTokens(user, req);
+}
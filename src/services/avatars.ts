@@ -0,0 +1,58 @@
+import {TransformationOptions} from 'cloudinary';
+import cloudinary from './cloudinary';
+import {imageUpload, ImageUploadError} from './imageUploads';
+import {IImage} from '../models/Image';
+
+// Square renditions returned next to the avatar; stored avatars are AVATAR_STORED_SIZE px
+export const AVATAR_SIZES = {small: 64, medium: 256, large: 512} as const;
+const AVATAR_STORED_SIZE = 1024;
+const AVATAR_MAX_BYTES = Number(process.env.AVATAR_MAX_BYTES || 5 * 1024 * 1024);
+
+export type AvatarUrls = Record<keyof typeof AVATAR_SIZES, string> & { original: string };
+
+export const avatarUpload = imageUpload(AVATAR_MAX_BYTES);
+
+// Optional crop box from the client (pixels of the original image), then a square
+// fill around the detected face when no box is given.
+export function avatarTransformation(body: Record<string, any>): TransformationOptions {
+  const fill = {width: AVATAR_STORED_SIZE, height: AVATAR_STORED_SIZE, crop: 'fill', gravity: 'face'};
+
+  const box = ['cropX', 'cropY', 'cropWidth', 'cropHeight'];
+  const given = box.filter(key => body?.[key] !== undefined && body[key] !== '');
+  if (given.length === 0) return [fill];
+  if (given.length !== box.length) throw new ImageUploadError('cropX, cropY, cropWidth and cropHeight must be sent together');
+
+  const [x, y, width, height] = box.map(key => Number(body[key]));
+  if ([x, y].some(n => !Number.isInteger(n) || n < 0) || [width, height].some(n => !Number.isInteger(n) || n < 1)) {
+    throw new ImageUploadError('crop values must be non-negative integers, width and height at least 1');
+  }
+  return [{x, y, width, height, crop: 'crop'}, {...fill, gravity: 'center'}];
+}
+
+export function avatarUrls(avatar?: IImage | null): AvatarUrls | null {
+  if (!avatar?.url) return null;
+  // avatars that aren't on Cloudinary can't be resized on the fly
+  if (avatar.storage !== 'cloudinary' || !avatar.cloudinaryPublicId) {
+    return {small: avatar.url, medium: avatar.url, large: avatar.url, original: avatar.url};
+  }
+
+  const sized = (size: number) => cloudinary.url(avatar.cloudinaryPublicId!, {
+    secure: true,
+    width: size,
+    height: size,
+    crop: 'fill',
+    fetch_format: 'auto',
+    quality: 'auto',
+  });
+  return {
+    small: sized(AVATAR_SIZES.small),
+    medium: sized(AVATAR_SIZES.medium),
+    large: sized(AVATAR_SIZES.large),
+    original: avatar.url,
+  };
+}
+
+// Adds avatarUrls to a serialized user (lean object or toJSON output)
+export function withAvatarUrls<T extends { avatar?: IImage | null }>(user: T): T & { avatarUrls: AvatarUrls | null } {
+  return {...user, avatarUrls: avatarUrls(user.avatar)};
+}
@@ -0,0 +1,130 @@
+import Category, {ICategoryNames} from '../models/Category';
+import Question from '../models/Question';
+import InfoCard from '../models/InfoCard';
+import {EnumLanguageIds, languageIdFromLabel} from '../models/Language';
+import {advanceSequence, nextSequence} from './counters';
+import {FALLBACK_LANGUAGE_IDS} from './languages';
+
+const CATEGORY_SEQUENCE = 'categoryId';
+const LANGUAGE_IDS: number[] = [EnumLanguageIds.GEORGIAN, EnumLanguageIds.ENGLISH, EnumLanguageIds.RUSSIAN];
+// guards the parent walk against trees that are already broken
+const MAX_DEPTH = 50;
+
+// Invalid category input, answered with 400
+export class CategoryInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CategoryInputError';
+  }
+}
+
+async function maxCategoryId(): Promise<number> {
+  const last = await Category.findOne().sort({categoryId: -1}).select('categoryId').lean();
+  return last?.categoryId ?? 0;
+}
+
+// The requested id when it's free, otherwise the next id of the sequence
+export async function allocateCategoryId(requested?: unknown): Promise<number> {
+  if (requested == null || requested === '') {
+    return nextSequence(CATEGORY_SEQUENCE, {currentMax: maxCategoryId});
+  }
+
+  const id = Number(requested);
+  if (!Number.isInteger(id) || id < 1) throw new CategoryInputError('categoryId must be a positive integer');
+  if (await Category.exists({categoryId: id})) throw new CategoryInputError('Category with this id already exists');
+
+  await advanceSequence(CATEGORY_SEQUENCE, id, maxCategoryId);
+  return id;
+}
+
+/**
+ * Names keyed by language id or label: {"1": "...", "en": "..."}. With `partial`
+ * (PATCH) null or '' removes the name of that language, the result then holds
+ * null for removed languages and the caller merges it into the stored names.
+ */
+export function parseNames(raw: unknown, {partial = false} = {}): Record<number, string | null> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new CategoryInputError('names must be an object keyed by languageId, e.g. {"1": "...", "2": "..."}');
+  }
+
+  const names: Record<number, string | null> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const languageId = LANGUAGE_IDS.includes(Number(key)) ? Number(key) : languageIdFromLabel(key);
+    if (languageId === null) throw new CategoryInputError(`Unknown language in names: ${key}`);
+    if (languageId in names) throw new CategoryInputError(`Duplicate name for language ${languageId}`);
+
+    if (partial && (value === null || value === '')) {
+      names[languageId] = null;
+    } else if (typeof value !== 'string' || !value.trim()) {
+      throw new CategoryInputError(`name for language ${languageId} must be a non-empty string`);
+    } else {
+      names[languageId] = value.trim();
+    }
+  }
+  return names;
+}
+
+// Checks that the parent exists and that `categoryId` (when updating) is not the
+// parent itself or one of its ancestors, which would make a cycle
+export async function validateParent(raw: unknown, categoryId?: number): Promise<number | null> {
+  if (raw === null || raw === '') return null;
+  const parentId = Number(raw);
+  if (!Number.isInteger(parentId)) throw new CategoryInputError('parentId must be an integer or null');
+  if (parentId === categoryId) throw new CategoryInputError('A category cannot be its own parent');
+
+  let current: number | null = parentId;
+  for (let depth = 0; current !== null && depth < MAX_DEPTH; depth++) {
+    const ancestor: { parentId?: number | null } | null = await Category.findOne({categoryId: current}).select('parentId').lean();
+    if (!ancestor) {
+      if (current === parentId) throw new CategoryInputError(`Unknown parentId: ${parentId}`);
+      break;
+    }
+    current = ancestor.parentId ?? null;
+    if (categoryId !== undefined && current === categoryId) {
+      throw new CategoryInputError('parentId cannot be a descendant of the category');
+    }
+  }
+  return parentId;
+}
+
+// The ids among `categoryIds` that are not in the Category collection
+export async function unknownCategoryIds(categoryIds: number[]): Promise<number[]> {
+  const unique = [...new Set(categoryIds)];
+  if (!unique.length) return [];
+  const known = await Category.find({categoryId: {$in: unique}}).select('categoryId').lean();
+  const knownIds = new Set(known.map(category => category.categoryId));
+  return unique.filter(id => !knownIds.has(id));
+}
+
+// The category and every category below it; with activeOnly disabled categories
+// and everything below them are left out
+export async function subtreeIds(categoryId: number, {activeOnly = false} = {}): Promise<number[]> {
+  const ids = [categoryId];
+  let frontier = [categoryId];
+  for (let depth = 0; frontier.length && depth < MAX_DEPTH; depth++) {
+    const children = await Category.find({parentId: {$in: frontier}, ...(activeOnly ? {status: true} : {})})
+        .select('categoryId').lean();
+    frontier = children.map(child => child.categoryId).filter(id => !ids.includes(id));
+    ids.push(...frontier);
+  }
+  return ids;
+}
+
+// What still points at the category; it can only be deleted when all are 0
+export async function categoryUsage(categoryId: number): Promise<{ children: number; questions: number; infoCards: number }> {
+  const [children, questions, infoCards] = await Promise.all([
+    Category.countDocuments({parentId: categoryId}),
+    Question.countDocuments({categoryId}),
+    InfoCard.countDocuments({categoryIdList: categoryId}),
+  ]);
+  return {children, questions, infoCards};
+}
+
+// Name in `languageId`, falling back through FALLBACK_LANGUAGE_IDS
+export function localizedName(names: ICategoryNames | undefined, languageId: number): string | null {
+  for (const id of [languageId, ...FALLBACK_LANGUAGE_IDS]) {
+    const name = names?.[id as EnumLanguageIds];
+    if (name) return name;
+  }
+  return null;
+}
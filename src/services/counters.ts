@@ -0,0 +1,23 @@
+import Counter from '../models/Counter';
+
+// Returns the highest id already in use, to start a sequence after existing data
+export type CurrentMax = () => Promise<number>;
+
+async function seed(name: string, currentMax?: CurrentMax): Promise<void> {
+  if (currentMax && !(await Counter.exists({_id: name}))) {
+    await Counter.updateOne({_id: name}, {$max: {seq: await currentMax()}}, {upsert: true});
+  }
+}
+
+// Reserves `count` consecutive values of the named sequence and returns the first one
+export async function nextSequence(name: string, {count = 1, currentMax}: { count?: number; currentMax?: CurrentMax } = {}): Promise<number> {
+  await seed(name, currentMax);
+  const counter = await Counter.findOneAndUpdate({_id: name}, {$inc: {seq: count}}, {upsert: true, new: true});
+  return counter!.seq - count + 1;
+}
+
+// Keeps the sequence ahead of a value that was chosen by hand
+export async function advanceSequence(name: string, value: number, currentMax?: CurrentMax): Promise<void> {
+  await seed(name, currentMax);
+  await Counter.updateOne({_id: name}, {$max: {seq: value}}, {upsert: true});
+}
@@ -0,0 +1,33 @@
+import {IUser} from '../models/User';
+import {EnumUserTokenPurpose} from '../models/UserToken';
+import {issueUserToken} from './userTokens';
+import {sendMail} from './mail';
+
+export type EmailVerificationPolicy = 'off' | 'restrict' | 'block';
+
+// off      - unverified users behave like verified ones
+// restrict - unverified users can log in but their tokens carry only the base `user` role
+// block    - POST /auth/login is rejected until the address is verified
+export const EMAIL_VERIFICATION_POLICY: EmailVerificationPolicy =
+    (['off', 'restrict', 'block'] as const).find(p => p === process.env.EMAIL_VERIFICATION_POLICY) || 'restrict';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const EMAIL_VERIFICATION_TTL_MS = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS || 24) * 60 * 60 * 1000;
+
+export function isEmailVerified(user: Pick<IUser, 'emailVerified'>): boolean {
+  return user.emailVerified !== false;
+}
+
+export async function sendVerificationEmail(user: Pick<IUser, '_id' | 'email' | 'firstName'>): Promise<void> {
+  const token = await issueUserToken(user._id, EnumUserTokenPurpose.EMAIL_VERIFICATION, EMAIL_VERIFICATION_TTL_MS);
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Please confirm your email address by opening the link below.',
+      `${APP_URL}/verify-email?token=${token}`,
+    ].join('\n'),
+  });
+}
@@ -0,0 +1,68 @@
+import User, {IUser} from '../models/User';
+
+// What an external identity provider (OIDC, Firebase) tells us about the person
+export interface ExternalProfile {
+  subject: string;
+  email?: string;
+  emailVerified?: boolean;
+  name?: string;
+  givenName?: string;
+  familyName?: string;
+}
+
+export class ExternalIdentityError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'ExternalIdentityError';
+  }
+}
+
+// Finds the user linked to the external identity, links it to an existing user
+// with the same provider-verified email, or creates a new user.
+export async function findOrCreateUserForIdentity(
+    provider: string,
+    profile: ExternalProfile,
+    options: { allowSignup?: boolean } = {}
+): Promise<IUser> {
+  // soft-deleted accounts are looked up as well: they must not sign in, and their
+  // email is still taken, so creating a new user for it would fail
+  const linked = await User.findOne({identities: {$elemMatch: {provider, subject: profile.subject}}})
+      .setOptions({withDeleted: true});
+  if (linked?.deletedAt) throw new ExternalIdentityError('This account has been deleted', 403);
+  if (linked) return linked;
+
+  const email = profile.email ? String(profile.email).toLowerCase().trim() : '';
+  const emailVerified = profile.emailVerified === true;
+  const identity = {provider, subject: profile.subject, email: email || undefined, linkedAt: new Date()};
+
+  if (email) {
+    const existing = await User.findOne({email}).setOptions({withDeleted: true});
+    if (existing?.deletedAt) throw new ExternalIdentityError('This account has been deleted', 403);
+    if (existing) {
+      // linking on an unverified address would let anyone take over the account
+      if (!emailVerified) {
+        throw new ExternalIdentityError('An account with this email already exists and the provider has not verified the address', 409);
+      }
+      existing.identities = [...(existing.identities || []), identity];
+      if (existing.emailVerified === false) {
+        existing.emailVerified = true;
+        existing.emailVerifiedAt = new Date();
+      }
+      await existing.save();
+      return existing;
+    }
+  }
+
+  if (options.allowSignup === false) throw new ExternalIdentityError('No account is linked to this identity', 403);
+  if (!email) throw new ExternalIdentityError('Identity provider did not return an email address');
+
+  const [firstFromName, ...restOfName] = String(profile.name || '').trim().split(/\s+/);
+  return User.create({
+    email,
+    firstName: profile.givenName || firstFromName || email.split('@')[0],
+    lastName: profile.familyName || restOfName.join(' ') || '-',
+    emailVerified,
+    ...(emailVerified ? {emailVerifiedAt: new Date()} : {}),
+    identities: [identity],
+  });
+}
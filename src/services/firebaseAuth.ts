@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import {App, cert, getApps, initializeApp} from 'firebase-admin/app';
+import {DecodedIdToken, getAuth} from 'firebase-admin/auth';
+import {IUser} from '../models/User';
+import {findOrCreateUserForIdentity} from './externalIdentities';
+
+// Firebase ID tokens (from the mobile app) are accepted by authMiddleware when
+// FIREBASE_AUTH_ENABLED=true. Only the project id is needed to verify them;
+// a service account (FIREBASE_SERVICE_ACCOUNT as JSON or FIREBASE_SERVICE_ACCOUNT_FILE)
+// is only required for FIREBASE_CHECK_REVOKED=true. With FIREBASE_AUTH_EMULATOR_HOST
+// set, firebase-admin accepts the emulator's unsigned tokens instead.
+export const FIREBASE_AUTH_ENABLED = process.env.FIREBASE_AUTH_ENABLED === 'true';
+const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT;
+const FIREBASE_CHECK_REVOKED = process.env.FIREBASE_CHECK_REVOKED === 'true';
+// create a local user on the first request of an unknown Firebase user, default true
+const FIREBASE_ALLOW_SIGNUP = process.env.FIREBASE_ALLOW_SIGNUP !== 'false';
+
+const FIREBASE_ISSUER_PREFIX = 'https://securetoken.google.com/';
+const IDENTITY_PROVIDER = 'firebase';
+const ADMIN_APP_NAME = 'auth-admin';
+
+function loadServiceAccount(): Record<string, any> | undefined {
+  let raw = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (!raw && process.env.FIREBASE_SERVICE_ACCOUNT_FILE) {
+    raw = fs.readFileSync(path.resolve(process.env.FIREBASE_SERVICE_ACCOUNT_FILE), 'utf8');
+  }
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function getAdminApp(): App {
+  const existing = getApps().find(app => app.name === ADMIN_APP_NAME);
+  if (existing) return existing;
+
+  const serviceAccount = loadServiceAccount();
+  const projectId = FIREBASE_PROJECT_ID || serviceAccount?.project_id;
+  if (!projectId) throw new Error('FIREBASE_PROJECT_ID is required when FIREBASE_AUTH_ENABLED=true');
+
+  return initializeApp({
+    projectId,
+    ...(serviceAccount ? {credential: cert(serviceAccount)} : {}),
+  }, ADMIN_APP_NAME);
+}
+
+// Cheap pre-check so authMiddleware only hands Firebase-issued tokens to firebase-admin
+export function isFirebaseIdToken(token: string): boolean {
+  const decoded = jwt.decode(token);
+  return Boolean(decoded && typeof decoded !== 'string' && typeof decoded.iss === 'string'
+      && decoded.iss.startsWith(FIREBASE_ISSUER_PREFIX));
+}
+
+// Throws when the token is invalid, expired or (with FIREBASE_CHECK_REVOKED) revoked
+export function verifyFirebaseIdToken(token: string): Promise<DecodedIdToken> {
+  return getAuth(getAdminApp()).verifyIdToken(token, FIREBASE_CHECK_REVOKED);
+}
+
+// Maps the Firebase user to a local user, linking or creating it just-in-time
+export function findOrCreateUserForFirebaseToken(decoded: DecodedIdToken): Promise<IUser> {
+  return findOrCreateUserForIdentity(IDENTITY_PROVIDER, {
+    subject: decoded.uid,
+    email: decoded.email,
+    emailVerified: decoded.email_verified === true,
+    name: decoded.name,
+  }, {allowSignup: FIREBASE_ALLOW_SIGNUP});
+}
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import multer, {Multer} from 'multer';
+import {Request, Response, NextFunction} from 'express';
+import {TransformationOptions, UploadApiResponse} from 'cloudinary';
+import {Types} from 'mongoose';
+import cloudinary from './cloudinary';
+import {guessContentType} from '../helpers/cloudinary';
+import {IImage} from '../models/Image';
+import {bindRequestContext} from './requestContext';
+
+export const IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export class ImageUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageUploadError';
+  }
+}
+
+// In-memory multer that only accepts the image types above, up to maxBytes
+export function imageUpload(maxBytes: number) {
+  return multer({
+    storage: multer.memoryStorage(),
+    limits: {fileSize: maxBytes, files: 1},
+    fileFilter: (_req, file, callback) => {
+      if (IMAGE_CONTENT_TYPES.includes(file.mimetype)) return callback(null, true);
+      callback(new ImageUploadError(`Unsupported image type ${file.mimetype}, allowed: ${IMAGE_CONTENT_TYPES.join(', ')}`));
+    },
+  });
+}
+
+// Single image in multipart field `field`; type and size errors become 400 instead
+// of reaching the default handler
+export function receiveImage(upload: Multer, field: string) {
+  const receive = bindRequestContext(upload.single(field));
+  return (req: Request, res: Response, next: NextFunction) => {
+    receive(req, res, (err: unknown) => {
+      if (!err) return next();
+      if (err instanceof ImageUploadError || err instanceof multer.MulterError) {
+        return res.status(400).json({error: err.message});
+      }
+      return next(err);
+    });
+  };
+}
+
+// Streams the multer buffer to Cloudinary. An incoming `transformation` is applied
+// before the image is stored, e.g. to crop it.
+export function uploadImage(
+    file: Express.Multer.File,
+    options: { folder: string; transformation?: TransformationOptions }
+): Promise<UploadApiResponse> {
+  return new Promise((resolve, reject) => {
+    const stream = cloudinary.uploader.upload_stream(
+        {folder: options.folder, resource_type: 'image', transformation: options.transformation},
+        (error, result) => {
+          if (error || !result) return reject(error || new Error('Cloudinary returned no result'));
+          resolve(result);
+        }
+    );
+    stream.end(file.buffer);
+  });
+}
+
+// Lets Cloudinary fetch the image itself: an http(s) URL or a data: URI
+export function uploadImageFromSource(source: string, options: { folder: string }): Promise<UploadApiResponse> {
+  return cloudinary.uploader.upload(source, {folder: options.folder, resource_type: 'image'});
+}
+
+// Metadata stored for a Cloudinary upload, see IImage. `file` is missing for
+// uploads from a URL (uploadImageFromSource).
+export function toImageMetadata(
+    up: UploadApiResponse,
+    file?: Pick<Express.Multer.File, 'size' | 'mimetype' | 'originalname'>,
+    uploadedBy?: Types.ObjectId | string
+): IImage {
+  const filename = up?.original_filename && up?.format
+      ? `${up.original_filename}.${up.format}`
+      : file?.originalname || up?.public_id;
+  return {
+    url: up?.secure_url || up?.url,
+    filename,
+    size: up?.bytes ?? file?.size ?? 0,
+    contentType: file?.mimetype || (up?.format ? guessContentType(up.format) : 'image'),
+    storage: 'cloudinary',
+    cloudinaryPublicId: up?.public_id,
+    ...(uploadedBy ? {uploadedBy: new Types.ObjectId(uploadedBy)} : {}),
+  };
+}
+
+// Best-effort removal of the stored file; never fails the calling request
+export function destroyImage(image?: IImage | null): void {
+  if (!image) return;
+
+  if (image.storage === 'cloudinary' && image.cloudinaryPublicId) {
+    cloudinary.uploader.destroy(image.cloudinaryPublicId).catch(() => void 0);
+  }
+
+  // Legacy local uploads
+  if (image.storage === 'local' && image.filename) {
+    fs.promises.unlink(path.join(process.cwd(), 'uploads', image.filename)).catch(() => void 0);
+  }
+}
@@ -0,0 +1,42 @@
+import {Request, Response} from 'express';
+import {IUser} from '../models/User';
+import ImpersonationLog, {EnumImpersonationEvent} from '../models/ImpersonationLog';
+import {AuthPrincipal} from '../types/auth';
+import {signAccessToken} from './jwt';
+import {toUserForToken} from './authTokens';
+import {requestMeta} from './sessions';
+
+// Impersonation tokens can't be refreshed, support starts a new one when it runs out
+export const IMPERSONATION_TTL_SECONDS = Number(process.env.IMPERSONATION_TTL_MINUTES || 15) * 60;
+
+// Access token for `user` that also names the admin in its act claim. It carries
+// no session, so it is rejected by every route behind requireSession.
+export async function startImpersonation(actorId: string, user: IUser, req: Request, reason?: string): Promise<string> {
+  const token = signAccessToken({...toUserForToken(user), actorId}, IMPERSONATION_TTL_SECONDS);
+
+  await ImpersonationLog.create({
+    event: EnumImpersonationEvent.START,
+    actorId,
+    userId: user._id,
+    reason,
+    ...requestMeta(req),
+  });
+
+  return token;
+}
+
+// Records the request once the response is sent, so the status code is known.
+// Logging failures never affect the request itself.
+export function logImpersonatedRequest(principal: AuthPrincipal, req: Request, res: Response): void {
+  res.on('finish', () => {
+    ImpersonationLog.create({
+      event: EnumImpersonationEvent.REQUEST,
+      actorId: principal.actorId,
+      userId: principal.id,
+      method: req.method,
+      path: req.originalUrl,
+      status: res.statusCode,
+      ...requestMeta(req),
+    }).catch(err => console.error('Failed to write impersonation log:', err));
+  });
+}
@@ -0,0 +1,293 @@
+import InfoCard, {IInfoCardDetail, IInfoCardImage} from '../models/InfoCard';
+import {advanceSequence, nextSequence} from './counters';
+import {FALLBACK_LANGUAGE_IDS, unknownLanguageIds} from './languages';
+import {unknownCategoryIds} from './categories';
+
+const INFO_CARD_SEQUENCE = 'infoCardId';
+const INFO_CARD_DETAIL_SEQUENCE = 'infoCardDetailId';
+
+// Invalid query or body input, answered with 400
+export class InfoCardInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InfoCardInputError';
+  }
+}
+
+// One entry of `details` in a request body
+export interface InfoCardDetailInput {
+  languageId: number;
+  title?: string;
+  subTitle?: string;
+  status?: boolean;
+  // PATCH only: drop the details of this language
+  remove?: boolean;
+}
+
+async function maxInfoCardId(): Promise<number> {
+  const last = await InfoCard.findOne().sort({infoCardId: -1}).select('infoCardId').lean();
+  return last?.infoCardId ?? 0;
+}
+
+async function maxInfoCardDetailId(): Promise<number> {
+  const [result] = await InfoCard.aggregate<{ max: number | null }>([
+    {$unwind: '$details'},
+    {$group: {_id: null, max: {$max: '$details.infoCardDetailId'}}},
+  ]);
+  return result?.max ?? 0;
+}
+
+// The requested id when it's free, otherwise the next id of the sequence
+export async function allocateInfoCardId(requested?: unknown): Promise<number> {
+  if (requested == null || requested === '') {
+    return nextSequence(INFO_CARD_SEQUENCE, {currentMax: maxInfoCardId});
+  }
+
+  const id = Number(requested);
+  if (!Number.isInteger(id) || id < 1) throw new InfoCardInputError('id must be a positive integer');
+  if (await InfoCard.exists({infoCardId: id})) throw new InfoCardInputError('InfoCard with this id already exists');
+
+  await advanceSequence(INFO_CARD_SEQUENCE, id, maxInfoCardId);
+  return id;
+}
+
+// Shape checks, one entry per language, and every language must exist in the Language collection
+export async function validateDetails(raw: unknown, {allowRemove = false} = {}): Promise<InfoCardDetailInput[]> {
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) throw new InfoCardInputError('details must be an array');
+
+  const seen = new Set<number>();
+  const inputs = raw.map((d: any): InfoCardDetailInput => {
+    if (!d || typeof d !== 'object') throw new InfoCardInputError('Each detail must be an object');
+
+    const languageId = Number(d.languageId);
+    if (d.languageId == null || !Number.isInteger(languageId)) {
+      throw new InfoCardInputError('Each detail must include a numeric languageId');
+    }
+    if (seen.has(languageId)) throw new InfoCardInputError('Each language can only appear once in details');
+    seen.add(languageId);
+
+    if (d.remove === true) {
+      if (!allowRemove) throw new InfoCardInputError('remove is only supported when updating');
+      return {languageId, remove: true};
+    }
+    for (const field of ['title', 'subTitle'] as const) {
+      if (d[field] != null && typeof d[field] !== 'string') throw new InfoCardInputError(`${field} must be a string`);
+    }
+    return {
+      languageId,
+      title: d.title ?? undefined,
+      subTitle: d.subTitle ?? undefined,
+      status: d.status == null ? undefined : Boolean(d.status),
+    };
+  });
+
+  await assertKnownLanguages(inputs.filter(input => !input.remove).map(input => input.languageId));
+  return inputs;
+}
+
+// Every language used on a card (details, image alt text) must exist in the Language collection
+export async function assertKnownLanguages(languageIds: number[]): Promise<void> {
+  const unknown = await unknownLanguageIds(languageIds);
+  if (unknown.length) throw new InfoCardInputError(`Unknown languageId: ${unknown.join(', ')}`);
+}
+
+// categoryIdList from a request body; every id must be an existing Category
+export async function validateCategoryIdList(raw: unknown): Promise<number[]> {
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) throw new InfoCardInputError('categoryIdList must be an array');
+  const ids = [...new Set(raw.map(Number))];
+  if (ids.some(id => !Number.isInteger(id))) throw new InfoCardInputError('categoryIdList must contain integer categoryIds');
+
+  const unknown = await unknownCategoryIds(ids);
+  if (unknown.length) throw new InfoCardInputError(`Unknown categoryId: ${unknown.join(', ')}`);
+  return ids;
+}
+
+// New detail entries with ids from the detail sequence
+export async function buildDetails(inputs: InfoCardDetailInput[], infoCardId: number): Promise<IInfoCardDetail[]> {
+  if (!inputs.length) return [];
+  const missingTitle = inputs.find(input => !input.title?.trim());
+  if (missingTitle) throw new InfoCardInputError(`title is required for language ${missingTitle.languageId}`);
+
+  const firstId = await nextSequence(INFO_CARD_DETAIL_SEQUENCE, {count: inputs.length, currentMax: maxInfoCardDetailId});
+  return inputs.map((input, index) => ({
+    infoCardDetailId: firstId + index,
+    infoCardId,
+    languageId: input.languageId,
+    title: input.title,
+    subTitle: input.subTitle,
+    status: input.status ?? true,
+  }));
+}
+
+/**
+ * PATCH semantics for details: entries are matched by languageId. Given fields
+ * overwrite the existing entry of that language, new languages are added and
+ * `remove: true` drops a language. Languages not mentioned stay as they are.
+ */
+export async function mergeDetails(
+    existing: IInfoCardDetail[],
+    inputs: InfoCardDetailInput[],
+    infoCardId: number
+): Promise<IInfoCardDetail[]> {
+  const merged = existing.map(detail => ({...detail}));
+  const added: InfoCardDetailInput[] = [];
+
+  for (const input of inputs) {
+    const index = merged.findIndex(detail => Number(detail.languageId) === input.languageId);
+
+    if (input.remove) {
+      if (index === -1) throw new InfoCardInputError(`No details in language ${input.languageId} to remove`);
+      merged.splice(index, 1);
+    } else if (index === -1) {
+      added.push(input);
+    } else {
+      const detail = merged[index];
+      if (input.title !== undefined && !input.title.trim()) {
+        throw new InfoCardInputError(`title of language ${input.languageId} cannot be empty`);
+      }
+      if (input.title !== undefined) detail.title = input.title;
+      if (input.subTitle !== undefined) detail.subTitle = input.subTitle;
+      if (input.status !== undefined) detail.status = input.status;
+    }
+  }
+
+  return [...merged, ...await buildDetails(added, infoCardId)];
+}
+
+// Shape of a date from the body: ISO string or timestamp, null/'' clears it
+function parseDate(raw: unknown, field: string): Date | null {
+  if (raw === null || raw === '') return null;
+  const date = new Date(raw as string | number);
+  if (typeof raw === 'boolean' || Number.isNaN(date.getTime())) throw new InfoCardInputError(`${field} must be a date`);
+  return date;
+}
+
+// publishFrom/publishUntil from a request body; only the fields that were sent.
+// `current` is the stored window, so a PATCH of one end is checked against the other.
+export function parsePublishWindow(
+    body: Record<string, any>,
+    current: { publishFrom?: Date | null; publishUntil?: Date | null } = {}
+): { publishFrom?: Date | null; publishUntil?: Date | null } {
+  const window: { publishFrom?: Date | null; publishUntil?: Date | null } = {};
+  if (body.publishFrom !== undefined) window.publishFrom = parseDate(body.publishFrom, 'publishFrom');
+  if (body.publishUntil !== undefined) window.publishUntil = parseDate(body.publishUntil, 'publishUntil');
+
+  const from = window.publishFrom !== undefined ? window.publishFrom : current.publishFrom;
+  const until = window.publishUntil !== undefined ? window.publishUntil : current.publishUntil;
+  if (from && until && until <= from) throw new InfoCardInputError('publishUntil must be after publishFrom');
+  return window;
+}
+
+export function parsePosition(raw: unknown): number {
+  const position = Number(raw);
+  if (raw === null || raw === '' || !Number.isInteger(position) || position < 0) {
+    throw new InfoCardInputError('position must be a non-negative integer');
+  }
+  return position;
+}
+
+// New cards go to the end of the list
+export async function nextPosition(): Promise<number> {
+  const last = await InfoCard.findOne().sort({position: -1}).select('position').lean();
+  return (last?.position ?? 0) + 1;
+}
+
+// Cards the public may see at `now`: active, inside their window, with at least one active language
+export function publishedFilter(now = new Date()): Record<string, any> {
+  return {
+    status: true,
+    details: {$elemMatch: {status: {$ne: false}}},
+    $and: [
+      {$or: [{publishFrom: null}, {publishFrom: {$lte: now}}]},
+      {$or: [{publishUntil: null}, {publishUntil: {$gt: now}}]},
+    ],
+  };
+}
+
+/**
+ * The active details entry for `languageId`, or when that language is missing or
+ * disabled the first active entry in FALLBACK_LANGUAGE_IDS order, then any
+ * active entry. Undefined when no language of the card is active.
+ */
+export function pickDetail(details: IInfoCardDetail[], languageId: number): IInfoCardDetail | undefined {
+  const active = details.filter(detail => detail.status !== false);
+  for (const id of [languageId, ...FALLBACK_LANGUAGE_IDS]) {
+    const detail = active.find(d => Number(d.languageId) === id);
+    if (detail) return detail;
+  }
+  return active[0];
+}
+
+// Keeps only the details entry (and image alt text) of the requested language.
+// For public responses disabled languages are left out, and a requested language
+// that is missing or disabled falls back to another one (see pickDetail).
+export function projectLanguage<T extends { details?: IInfoCardDetail[]; image?: IInfoCardImage | null }>(
+    card: T,
+    languageId: number | null,
+    {published = false} = {}
+): T {
+  if (languageId === null && !published) return card;
+
+  const all = card.details || [];
+  let details: IInfoCardDetail[];
+  if (languageId === null) {
+    details = all.filter(detail => detail.status !== false);
+  } else if (published) {
+    const detail = pickDetail(all, languageId);
+    details = detail ? [detail] : [];
+  } else {
+    details = all.filter(detail => Number(detail.languageId) === languageId);
+  }
+
+  const languages = new Set(details.map(detail => Number(detail.languageId)));
+  return {
+    ...card,
+    details,
+    ...(card.image ? {image: {...card.image, alt: (card.image.alt || []).filter(alt => languages.has(alt.languageId))}} : {}),
+  };
+}
+
+/**
+ * Puts the cards of `infoCardIds` first, in that order, followed by every other
+ * card in its current order, and renumbers positions from 1. Only cards whose
+ * position changes are written. Returns the new order.
+ */
+export async function reorderInfoCards(infoCardIds: unknown): Promise<Array<{ infoCardId: number; position: number }>> {
+  if (!Array.isArray(infoCardIds) || !infoCardIds.length) throw new InfoCardInputError('ids must be a non-empty array of infoCardIds');
+  const ids = infoCardIds.map(Number);
+  if (ids.some(id => !Number.isInteger(id))) throw new InfoCardInputError('ids must be integers');
+  if (new Set(ids).size !== ids.length) throw new InfoCardInputError('ids must not repeat');
+
+  const cards = await InfoCard.find().sort({position: 1, infoCardId: 1}).select('infoCardId position').lean();
+  const known = new Set(cards.map(card => card.infoCardId));
+  const unknown = ids.filter(id => !known.has(id));
+  if (unknown.length) throw new InfoCardInputError(`Unknown infoCardId: ${unknown.join(', ')}`);
+
+  const listed = new Set(ids);
+  const order = [...ids, ...cards.map(card => card.infoCardId).filter(id => !listed.has(id))];
+  const current = new Map(cards.map(card => [card.infoCardId, card.position]));
+
+  // one write per card so each move shows up in the audit log
+  for (const [index, infoCardId] of order.entries()) {
+    if (current.get(infoCardId) !== index + 1) await InfoCard.updateOne({infoCardId}, {$set: {position: index + 1}});
+  }
+  return order.map((infoCardId, index) => ({infoCardId, position: index + 1}));
+}
+
+// Cards created before positions existed are appended in infoCardId order.
+// Runs at startup; a no-op once every card has a position.
+export async function backfillInfoCardPositions(): Promise<void> {
+  const missing = await InfoCard.collection
+      .find({position: {$exists: false}}, {projection: {_id: 1}})
+      .sort({infoCardId: 1})
+      .toArray();
+  if (!missing.length) return;
+
+  const last = await InfoCard.collection.findOne({position: {$exists: true}}, {sort: {position: -1}, projection: {position: 1}});
+  const start = (last?.position ?? 0) + 1;
+  await InfoCard.collection.bulkWrite(missing.map((card, index) => ({
+    updateOne: {filter: {_id: card._id}, update: {$set: {position: start + index}}},
+  })));
+}
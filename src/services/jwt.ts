@@ -1,25 +1,184 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import {IUserForToken} from '../types/auth';
+import {AccessTokenClaims, IUserForToken} from '../types/auth';
+import RefreshToken from '../models/RefreshToken';
+import User from '../models/User';
+import {getSigningKey, getVerificationKey, hasAsymmetricKeys} from './jwtKeys';
 
-const ACCESS_SECRET = process.env.JWT_SECRET || '1dev_access_secret_change_me';
-const REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || '1dev_refresh_secret_change_me';
+// Development fallbacks are refused in production
+function secretFromEnv(name: string, devFallback: string): string {
+  const value = process.env[name];
+  if (value) return value;
+  if (process.env.NODE_ENV === 'production') throw new Error(`${name} must be set in production`);
+  return devFallback;
+}
+
+// Access tokens use the asymmetric key set when one is configured (see jwtKeys.ts),
+// otherwise HS256 with this secret. Refresh and MFA tokens never leave this service
+// and are always HMAC-signed.
+const ACCESS_SECRET = hasAsymmetricKeys() ? '' : secretFromEnv('JWT_SECRET', '1dev_access_secret_change_me');
+const REFRESH_SECRET = secretFromEnv('JWT_REFRESH_SECRET', '1dev_refresh_secret_change_me');
+// separate secret so an MFA challenge token can never pass as an access token
+const MFA_SECRET = process.env.JWT_MFA_SECRET || `${REFRESH_SECRET}:mfa`;
+
+const JWT_ISSUER = process.env.JWT_ISSUER;
 
 const ACCESS_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 const REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+const MFA_CHALLENGE_EXPIRES_IN = process.env.JWT_MFA_EXPIRES_IN || '5m';
+
+export type RefreshTokenPayload = IUserForToken & { fam: string };
+
+export class RefreshTokenError extends Error {
+  constructor(message: string, public reuseDetected = false) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toClaims(payload: IUserForToken): Omit<AccessTokenClaims, 'sub'> {
+  return {
+    roles: payload.roles,
+    ver: payload.tokenVersion,
+    ...(payload.sessionId ? {sid: payload.sessionId} : {}),
+    ...(payload.actorId ? {act: {sub: payload.actorId}} : {}),
+  };
+}
+
+function fromClaims(claims: AccessTokenClaims): IUserForToken {
+  return {
+    id: claims.sub,
+    roles: claims.roles || [],
+    tokenVersion: claims.ver ?? 0,
+    sessionId: claims.sid,
+    ...(claims.act?.sub ? {actorId: claims.act.sub} : {}),
+  };
+}
+
+// expiresIn overrides JWT_EXPIRES_IN, e.g. for short-lived impersonation tokens
+export function signAccessToken(payload: IUserForToken, expiresIn: string | number = ACCESS_EXPIRES_IN): string {
+  const options: jwt.SignOptions = {
+    // cast to any to satisfy typing differences across jsonwebtoken versions
+    expiresIn: expiresIn as any,
+    subject: String(payload.id),
+    ...(JWT_ISSUER ? {issuer: JWT_ISSUER} : {}),
+  };
+
+  if (!hasAsymmetricKeys()) {
+    return jwt.sign(toClaims(payload), ACCESS_SECRET, {...options, algorithm: 'HS256'});
+  }
+
+  const key = getSigningKey();
+  return jwt.sign(toClaims(payload), key.privateKey, {...options, algorithm: key.alg, keyid: key.kid});
+}
+
+// Issues a refresh token and persists its hash. Pass the familyId of the
+// consumed token when rotating, omit it to start a new family (new login).
+export async function signRefreshToken(payload: IUserForToken, familyId: string = crypto.randomUUID()): Promise<string> {
+  const token = jwt.sign(
+      {...toClaims(payload), fam: familyId} as any,
+      REFRESH_SECRET as any,
+      {expiresIn: REFRESH_EXPIRES_IN, jwtid: crypto.randomUUID(), subject: String(payload.id)} as any
+  ) as string;
+
+  const {exp} = jwt.decode(token) as jwt.JwtPayload;
+  await RefreshToken.create({
+    userId: payload.id,
+    tokenHash: hashToken(token),
+    familyId,
+    expiresAt: new Date((exp as number) * 1000),
+  });
+
+  return token;
+}
 
-export function signAccessToken(payload: IUserForToken): string {
-  // cast to any to satisfy typing differences across jsonwebtoken versions
-  return jwt.sign({...payload}, ACCESS_SECRET, {expiresIn: ACCESS_EXPIRES_IN} as any) as string;
+// Short-lived token proving the password step of a two-step login succeeded.
+export function signMfaChallengeToken(userId: string): string {
+  return jwt.sign({sub: userId, purpose: 'mfa'}, MFA_SECRET, {expiresIn: MFA_CHALLENGE_EXPIRES_IN} as any) as string;
 }
 
-export function signRefreshToken(payload: IUserForToken): string {
-  return jwt.sign({...payload} as any, REFRESH_SECRET as any, {expiresIn: REFRESH_EXPIRES_IN} as any) as string;
+export function verifyMfaChallengeToken(token: string): string {
+  const payload = jwt.verify(token, MFA_SECRET) as jwt.JwtPayload;
+  if (payload.purpose !== 'mfa' || !payload.sub) throw new Error('Invalid MFA challenge token');
+  return payload.sub;
 }
 
 export function verifyAccessToken(token: string): IUserForToken {
-  return jwt.verify(token, ACCESS_SECRET) as IUserForToken;
+  const options = JWT_ISSUER ? {issuer: JWT_ISSUER} : {};
+
+  if (!hasAsymmetricKeys()) {
+    return fromClaims(jwt.verify(token, ACCESS_SECRET, {...options, algorithms: ['HS256']}) as AccessTokenClaims);
+  }
+
+  // pin the algorithm to the key's own so a token can't pick a weaker one
+  const decoded = jwt.decode(token, {complete: true});
+  const key = decoded?.header.kid ? getVerificationKey(decoded.header.kid) : undefined;
+  if (!key) throw new Error('Unknown signing key');
+
+  return fromClaims(jwt.verify(token, key.publicKey, {...options, algorithms: [key.alg]}) as AccessTokenClaims);
+}
+
+// Checks signature, expiry and the server-side record without consuming the token.
+export async function verifyRefreshToken(token: string): Promise<RefreshTokenPayload> {
+  let payload: RefreshTokenPayload;
+  try {
+    const claims = jwt.verify(token, REFRESH_SECRET) as AccessTokenClaims & { fam: string };
+    payload = {...fromClaims(claims), fam: claims.fam};
+  } catch (err) {
+    throw new RefreshTokenError('Invalid or expired refresh token');
+  }
+
+  const record = await RefreshToken.findOne({tokenHash: hashToken(token)}).lean();
+  if (!record || record.revokedAt) throw new RefreshTokenError('Invalid or expired refresh token');
+
+  if (record.usedAt) {
+    // a rotated token was presented again: assume it was stolen and kill the whole family
+    await revokeRefreshTokenFamily(record.familyId);
+    throw new RefreshTokenError('Refresh token reuse detected', true);
+  }
+
+  return payload;
+}
+
+// Verifies and marks the token as used (one-time use). The caller issues the
+// replacement with signRefreshToken(user, payload.fam).
+export async function consumeRefreshToken(token: string): Promise<RefreshTokenPayload> {
+  const payload = await verifyRefreshToken(token);
+
+  // conditional update so two concurrent refreshes with the same token can't both win
+  const consumed = await RefreshToken.findOneAndUpdate(
+      {tokenHash: hashToken(token), usedAt: null, revokedAt: null},
+      {usedAt: new Date()}
+  );
+  if (!consumed) {
+    await revokeRefreshTokenFamily(payload.fam);
+    throw new RefreshTokenError('Refresh token reuse detected', true);
+  }
+
+  return payload;
+}
+
+// A family stays active until it is revoked (logout, reuse detection, session
+// revocation); expired families simply have no token left to refresh with.
+export async function isRefreshTokenFamilyActive(familyId: string): Promise<boolean> {
+  return Boolean(await RefreshToken.exists({familyId, revokedAt: null, expiresAt: {$gt: new Date()}}));
+}
+
+export async function revokeRefreshTokenFamily(familyId: string): Promise<void> {
+  await RefreshToken.updateMany({familyId, revokedAt: null}, {revokedAt: new Date()});
+}
+
+export async function revokeAllRefreshTokens(userId: string): Promise<void> {
+  await RefreshToken.updateMany({userId, revokedAt: null}, {revokedAt: new Date()});
 }
 
-export function verifyRefreshToken(token: string): IUserForToken {
-  return jwt.verify(token, REFRESH_SECRET) as IUserForToken;
+// Makes every token issued so far unusable: access tokens fail the version
+// check in authMiddleware, refresh tokens are revoked.
+export async function invalidateUserTokens(userId: string): Promise<void> {
+  await User.updateOne({_id: userId}, {$inc: {tokenVersion: 1}});
+  await revokeAllRefreshTokens(userId);
 }
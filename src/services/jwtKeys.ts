@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type JwtKeyAlgorithm = 'RS256' | 'ES256';
+
+export interface JwtKey {
+  kid: string;
+  alg: JwtKeyAlgorithm;
+  privateKey: string;
+  publicKey: string;
+  createdAt?: string;
+}
+
+// Format written by scripts/jwt-keys.js. Every key in `keys` is accepted for
+// verification and published in the JWKS; only `activeKid` signs new tokens.
+export interface JwtKeySet {
+  activeKid: string;
+  keys: JwtKey[];
+}
+
+const SUPPORTED_ALGORITHMS: JwtKeyAlgorithm[] = ['RS256', 'ES256'];
+
+// JWT_KEYS (inline JSON, handy on hosted platforms) wins over JWT_KEYS_FILE
+function loadKeySet(): JwtKeySet | null {
+  let raw = process.env.JWT_KEYS;
+  if (!raw) {
+    const file = path.resolve(process.env.JWT_KEYS_FILE || path.join(process.cwd(), 'keys', 'jwt-keys.json'));
+    if (!fs.existsSync(file)) return null;
+    raw = fs.readFileSync(file, 'utf8');
+  }
+
+  const keySet = JSON.parse(raw) as JwtKeySet;
+  if (!Array.isArray(keySet.keys) || keySet.keys.length === 0) {
+    throw new Error('JWT key set has no keys');
+  }
+  for (const key of keySet.keys) {
+    if (!key.kid || !SUPPORTED_ALGORITHMS.includes(key.alg) || !key.privateKey || !key.publicKey) {
+      throw new Error(`JWT key ${key.kid || '(no kid)'} is invalid, expected kid, alg (${SUPPORTED_ALGORITHMS.join('/')}), privateKey and publicKey`);
+    }
+  }
+  if (!keySet.keys.some(key => key.kid === keySet.activeKid)) {
+    throw new Error(`JWT key set activeKid ${keySet.activeKid} does not match any key`);
+  }
+  return keySet;
+}
+
+const keySet = loadKeySet();
+
+// False means access tokens fall back to HS256 with JWT_SECRET
+export function hasAsymmetricKeys(): boolean {
+  return keySet !== null;
+}
+
+export function getSigningKey(): JwtKey {
+  if (!keySet) throw new Error('No JWT signing keys configured');
+  return keySet.keys.find(key => key.kid === keySet.activeKid)!;
+}
+
+export function getVerificationKey(kid: string): JwtKey | undefined {
+  return keySet?.keys.find(key => key.kid === kid);
+}
+
+// Public halves of all keys in JWK format, for GET /.well-known/jwks.json
+export function getPublicJwks(): { keys: Record<string, unknown>[] } {
+  return {
+    keys: (keySet?.keys || []).map(key => ({
+      ...crypto.createPublicKey(key.publicKey).export({format: 'jwk'}),
+      kid: key.kid,
+      alg: key.alg,
+      use: 'sig',
+    })),
+  };
+}
@@ -0,0 +1,52 @@
+import Language, {EnumLanguageIds, EnumLanguageLabels, EnumLanguages, languageIdFromLabel} from '../models/Language';
+
+const DEFAULT_LANGUAGES = [
+  {id: EnumLanguageIds.GEORGIAN, label: EnumLanguageLabels.GEORGIAN, language: EnumLanguages.GEORGIAN},
+  {id: EnumLanguageIds.ENGLISH, label: EnumLanguageLabels.ENGLISH, language: EnumLanguages.ENGLISH},
+  {id: EnumLanguageIds.RUSSIAN, label: EnumLanguageLabels.RUSSIAN, language: EnumLanguages.RUSSIAN},
+];
+
+// Tried in this order when content is missing or disabled in the requested language
+export const FALLBACK_LANGUAGE_IDS = [EnumLanguageIds.GEORGIAN, EnumLanguageIds.ENGLISH, EnumLanguageIds.RUSSIAN];
+
+// Invalid ?languageId or ?lang, answered with 400
+export class LanguageQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LanguageQueryError';
+  }
+}
+
+// ?languageId=2 or ?lang=en; null when neither is sent
+export function languageFromQuery(query: Record<string, any>): number | null {
+  const {languageId, lang} = query;
+  if (languageId !== undefined && languageId !== '') {
+    const id = Number(languageId);
+    if (!DEFAULT_LANGUAGES.some(language => language.id === id)) {
+      throw new LanguageQueryError(`languageId query must be one of: ${DEFAULT_LANGUAGES.map(language => language.id).join(', ')}`);
+    }
+    return id;
+  }
+  if (typeof lang === 'string' && lang) {
+    const id = languageIdFromLabel(lang);
+    if (id === null) throw new LanguageQueryError(`lang query must be one of: ${DEFAULT_LANGUAGES.map(language => language.label).join(', ')}`);
+    return id;
+  }
+  return null;
+}
+
+// Content is validated against the Language collection, so the built-in
+// languages must exist. Existing documents (e.g. a disabled status) are kept.
+export async function seedLanguages(): Promise<void> {
+  await Language.bulkWrite(DEFAULT_LANGUAGES.map(language => ({
+    updateOne: {filter: {id: language.id}, update: {$setOnInsert: language}, upsert: true},
+  })));
+}
+
+// The ids among `languageIds` that are not in the Language collection
+export async function unknownLanguageIds(languageIds: number[]): Promise<number[]> {
+  const unique = [...new Set(languageIds)];
+  const known = await Language.find({id: {$in: unique}}).select('id').lean();
+  const knownIds = new Set(known.map(language => Number(language.id)));
+  return unique.filter(id => !knownIds.has(id));
+}
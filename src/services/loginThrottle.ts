@@ -0,0 +1,169 @@
+import LoginAttempt from '../models/LoginAttempt';
+
+export interface LoginAttemptState {
+  failures: number;
+  lockedUntil: Date | null;
+}
+
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptState | null>;
+  // increments the counter, (re)starts its expiry and returns the new failure count
+  recordFailure(key: string, ttlMs: number): Promise<number>;
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+// Per-process store, only suitable for a single instance or tests.
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private entries = new Map<string, LoginAttemptState & { expiresAt: number }>();
+
+  private live(key: string) {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get(key: string): Promise<LoginAttemptState | null> {
+    const entry = this.live(key);
+    return entry ? {failures: entry.failures, lockedUntil: entry.lockedUntil} : null;
+  }
+
+  async recordFailure(key: string, ttlMs: number): Promise<number> {
+    const entry = this.live(key) || {failures: 0, lockedUntil: null, expiresAt: 0};
+    entry.failures += 1;
+    entry.expiresAt = Date.now() + ttlMs;
+    this.entries.set(key, entry);
+    return entry.failures;
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const entry = this.live(key);
+    if (!entry) return;
+    entry.lockedUntil = until;
+    entry.expiresAt = Math.max(entry.expiresAt, until.getTime());
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// Shared store so limits hold across multiple app instances.
+export class MongoLoginAttemptStore implements LoginAttemptStore {
+  async get(key: string): Promise<LoginAttemptState | null> {
+    const doc = await LoginAttempt.findOne({key, expiresAt: {$gt: new Date()}}).lean();
+    return doc ? {failures: doc.failures, lockedUntil: doc.lockedUntil || null} : null;
+  }
+
+  async recordFailure(key: string, ttlMs: number): Promise<number> {
+    const now = new Date();
+    // A single atomic upsert, so parallel failures can't collide on the unique key.
+    // The counter starts from scratch when the previous one expired but TTL
+    // cleanup hasn't run yet (a new document has no expiresAt either).
+    const live = {$gt: ['$expiresAt', now]};
+    const doc = await LoginAttempt.findOneAndUpdate(
+        {key},
+        [{
+          $set: {
+            failures: {$cond: [live, {$add: ['$failures', 1]}, 1]},
+            lockedUntil: {$cond: [live, '$lockedUntil', null]},
+            expiresAt: new Date(now.getTime() + ttlMs),
+          },
+        }],
+        {upsert: true, new: true}
+    );
+    return doc.failures;
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    await LoginAttempt.updateOne({key}, [
+      {$set: {lockedUntil: until, expiresAt: {$max: ['$expiresAt', until]}}},
+    ]);
+  }
+
+  async reset(key: string): Promise<void> {
+    await LoginAttempt.deleteOne({key});
+  }
+}
+
+interface ThrottleRule {
+  // failures allowed before backoff kicks in
+  threshold: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const ATTEMPT_WINDOW_MS = Number(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || 15) * 60 * 1000;
+
+const ACCOUNT_RULE: ThrottleRule = {
+  threshold: Number(process.env.LOGIN_MAX_FAILURES_PER_ACCOUNT || 5),
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+};
+
+const IP_RULE: ThrottleRule = {
+  threshold: Number(process.env.LOGIN_MAX_FAILURES_PER_IP || 20),
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+};
+
+let store: LoginAttemptStore = process.env.LOGIN_ATTEMPT_STORE === 'memory'
+    ? new MemoryLoginAttemptStore()
+    : new MongoLoginAttemptStore();
+
+export function setLoginAttemptStore(next: LoginAttemptStore): void {
+  store = next;
+}
+
+const accountKey = (email: string) => `email:${email}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+export type LoginThrottleResult =
+    | { allowed: true }
+    | { allowed: false; status: 423 | 429; retryAfterSeconds: number; error: string };
+
+function retryAfter(state: LoginAttemptState | null): number {
+  if (!state?.lockedUntil) return 0;
+  return Math.ceil((state.lockedUntil.getTime() - Date.now()) / 1000);
+}
+
+export async function checkLoginAllowed(email: string, ip: string): Promise<LoginThrottleResult> {
+  const [ipState, accountState] = await Promise.all([store.get(ipKey(ip)), store.get(accountKey(email))]);
+
+  const ipWait = retryAfter(ipState);
+  if (ipWait > 0) {
+    return {allowed: false, status: 429, retryAfterSeconds: ipWait, error: 'Too many failed login attempts from this address'};
+  }
+
+  const accountWait = retryAfter(accountState);
+  if (accountWait > 0) {
+    return {allowed: false, status: 423, retryAfterSeconds: accountWait, error: 'Account temporarily locked after too many failed login attempts'};
+  }
+
+  return {allowed: true};
+}
+
+async function recordAndMaybeLock(key: string, rule: ThrottleRule): Promise<void> {
+  const failures = await store.recordFailure(key, ATTEMPT_WINDOW_MS);
+  if (failures < rule.threshold) return;
+
+  // exponential backoff: base, 2x base, 4x base ... capped at maxDelayMs
+  const delay = Math.min(rule.baseDelayMs * 2 ** (failures - rule.threshold), rule.maxDelayMs);
+  await store.lock(key, new Date(Date.now() + delay));
+}
+
+export async function registerLoginFailure(email: string, ip: string): Promise<void> {
+  await Promise.all([recordAndMaybeLock(accountKey(email), ACCOUNT_RULE), recordAndMaybeLock(ipKey(ip), IP_RULE)]);
+}
+
+// Only the account counter is cleared; one valid login must not reset an attacker's IP budget.
+export async function registerLoginSuccess(email: string): Promise<void> {
+  await store.reset(accountKey(email));
+}
+
+export async function unlockAccount(email: string): Promise<void> {
+  await store.reset(accountKey(email));
+}
@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints messages to stdout, default transport for local development.
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to: ${message.to} | subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes every message as a JSON file into a directory (the "outbox"),
+// handy for tests and offline environments.
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.dir, {recursive: true});
+    const filename = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+    const body = JSON.stringify({...message, sentAt: new Date().toISOString()}, null, 2);
+    await fs.promises.writeFile(path.join(this.dir, filename), body, 'utf8');
+  }
+}
+
+function createTransportFromEnv(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox'));
+  }
+  return new ConsoleMailTransport();
+}
+
+let transport: MailTransport = createTransportFromEnv();
+
+// Swap the transport at startup (e.g. an SMTP or provider-backed implementation).
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  return transport.send(message);
+}
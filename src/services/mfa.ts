@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import User, {IUser} from '../models/User';
+import {hashToken} from './jwt';
+
+// TOTP as in RFC 6238: HMAC-SHA1, 6 digits, 30 second steps (what authenticator apps expect)
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// accept codes from one step before/after to tolerate clock drift
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const MFA_ISSUER = process.env.MFA_ISSUER || 'BK';
+
+// Roles that must use MFA, in addition to users an admin flagged with mfaRequired
+export const MFA_REQUIRED_ROLES = (process.env.MFA_REQUIRED_ROLES ?? 'admin')
+    .split(',')
+    .map(r => r.trim())
+    .filter(Boolean);
+
+const RECOVERY_CODES_COUNT = 10;
+
+function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of clean) {
+    const idx = BASE32_ALPHABET.indexOf(char);
+    if (idx === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+}
+
+export function generateTotp(secret: string, step = currentTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return String(code).padStart(TOTP_DIGITS, '0');
+}
+
+// Returns the matching time step, or null. Steps at or before lastUsedStep are
+// rejected so an intercepted code can't be replayed.
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  const normalized = String(code).replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+  const now = currentTotpStep();
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return step;
+  }
+  return null;
+}
+
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${MFA_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: MFA_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Recovery codes are shown to the user once; only their hashes are stored.
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({length: RECOVERY_CODES_COUNT}, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return {codes, hashes: codes.map(hashRecoveryCode)};
+}
+
+export function hashRecoveryCode(code: string): string {
+  return hashToken(String(code).trim().toLowerCase());
+}
+
+export function isMfaRequired(user: Pick<IUser, 'roles' | 'mfaRequired'>): boolean {
+  return Boolean(user.mfaRequired) || (user.roles || []).some(role => MFA_REQUIRED_ROLES.includes(role));
+}
+
+// Accepts either a TOTP code or an unused recovery code for the given user and
+// consumes it. Both updates are conditional so a code can't be used twice even
+// by concurrent requests.
+export async function verifyUserMfaCode(userId: string, code: string): Promise<boolean> {
+  const user = await User.findById(userId).select('+mfaSecret +mfaLastUsedStep');
+  if (!user || !user.mfaEnabled || !user.mfaSecret) return false;
+
+  const step = verifyTotp(user.mfaSecret, code, user.mfaLastUsedStep);
+  if (step !== null) {
+    const result = await User.updateOne(
+        {_id: user._id, $or: [{mfaLastUsedStep: {$lt: step}}, {mfaLastUsedStep: {$exists: false}}]},
+        {mfaLastUsedStep: step}
+    );
+    return result.modifiedCount === 1;
+  }
+
+  const hash = hashRecoveryCode(code);
+  const result = await User.updateOne({_id: user._id, mfaRecoveryCodes: hash}, {$pull: {mfaRecoveryCodes: hash}});
+  return result.modifiedCount === 1;
+}
@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import {IUser} from '../models/User';
+import OidcLoginState from '../models/OidcLoginState';
+import {ExternalIdentityError, findOrCreateUserForIdentity} from './externalIdentities';
+
+// One entry per identity provider, loaded from OIDC_PROVIDERS (JSON array) or
+// OIDC_PROVIDERS_FILE (default config/oidc-providers.json). Endpoints are taken
+// from the issuer's discovery document unless set explicitly, which lets a
+// local mock IdP without discovery be used in tests.
+export interface OidcProviderConfig {
+  // used in URLs: /auth/oidc/:id/...
+  id: string;
+  name?: string;
+  issuer: string;
+  clientId: string;
+  // omit for public clients, PKCE protects the code exchange either way
+  clientSecret?: string;
+  tokenEndpointAuthMethod?: 'client_secret_post' | 'client_secret_basic';
+  redirectUri: string;
+  scopes?: string[];
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  jwksUri?: string;
+  // create a local user when no account matches, default true
+  allowSignup?: boolean;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims extends jwt.JwtPayload {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  nonce?: string;
+}
+
+export class OidcError extends ExternalIdentityError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = 'OidcError';
+  }
+}
+
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+
+function loadProviders(): OidcProviderConfig[] {
+  let raw = process.env.OIDC_PROVIDERS;
+  if (!raw) {
+    const file = path.resolve(process.env.OIDC_PROVIDERS_FILE || path.join(process.cwd(), 'config', 'oidc-providers.json'));
+    if (!fs.existsSync(file)) return [];
+    raw = fs.readFileSync(file, 'utf8');
+  }
+
+  const providers = JSON.parse(raw) as OidcProviderConfig[];
+  for (const provider of providers) {
+    if (!provider.id || !provider.issuer || !provider.clientId || !provider.redirectUri) {
+      throw new Error(`OIDC provider ${provider.id || '(no id)'} needs id, issuer, clientId and redirectUri`);
+    }
+  }
+  return providers;
+}
+
+const providers = loadProviders();
+const metadataCache = new Map<string, Promise<ProviderMetadata>>();
+const jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+export function listOidcProviders(): { id: string; name: string }[] {
+  return providers.map(p => ({id: p.id, name: p.name || p.id}));
+}
+
+export function getOidcProvider(id: string): OidcProviderConfig {
+  const provider = providers.find(p => p.id === id);
+  if (!provider) throw new OidcError(`Unknown identity provider ${id}`, 404);
+  return provider;
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, {...init, headers: {Accept: 'application/json', ...(init?.headers || {})}});
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new OidcError(`Identity provider request failed (${response.status}): ${body?.error_description || body?.error || url}`, 502);
+  }
+  return body;
+}
+
+function getMetadata(provider: OidcProviderConfig): Promise<ProviderMetadata> {
+  if (provider.authorizationEndpoint && provider.tokenEndpoint && provider.jwksUri) {
+    return Promise.resolve({
+      issuer: provider.issuer,
+      authorization_endpoint: provider.authorizationEndpoint,
+      token_endpoint: provider.tokenEndpoint,
+      jwks_uri: provider.jwksUri,
+    });
+  }
+
+  let cached = metadataCache.get(provider.id);
+  if (!cached) {
+    const url = `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    cached = fetchJson(url).then(doc => ({
+      issuer: doc.issuer || provider.issuer,
+      authorization_endpoint: provider.authorizationEndpoint || doc.authorization_endpoint,
+      token_endpoint: provider.tokenEndpoint || doc.token_endpoint,
+      jwks_uri: provider.jwksUri || doc.jwks_uri,
+    }));
+    // don't keep a failed discovery around, retry on the next login
+    cached.catch(() => metadataCache.delete(provider.id));
+    metadataCache.set(provider.id, cached);
+  }
+  return cached;
+}
+
+async function getSigningJwk(jwksUri: string, kid?: string): Promise<any> {
+  const find = (keys: any[]) => keys.find(k => (kid ? k.kid === kid : true) && (!k.use || k.use === 'sig'));
+
+  const cached = jwksCache.get(jwksUri);
+  const hit = cached && find(cached.keys);
+  if (hit) return hit;
+
+  // unknown kid usually means the provider rotated keys, refetch (rate limited)
+  if (!cached || Date.now() - cached.fetchedAt > JWKS_REFETCH_INTERVAL_MS) {
+    const {keys = []} = await fetchJson(jwksUri);
+    jwksCache.set(jwksUri, {keys, fetchedAt: Date.now()});
+    const fresh = find(keys);
+    if (fresh) return fresh;
+  }
+  throw new OidcError('ID token signed with an unknown key', 401);
+}
+
+const base64url = (buf: Buffer) => buf.toString('base64url');
+
+// Step 1: returns the provider URL to send the browser to
+export async function createAuthorizationUrl(providerId: string): Promise<{ url: string; state: string }> {
+  const provider = getOidcProvider(providerId);
+  const metadata = await getMetadata(provider);
+
+  const state = base64url(crypto.randomBytes(24));
+  const nonce = base64url(crypto.randomBytes(24));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  await OidcLoginState.create({
+    state,
+    provider: provider.id,
+    nonce,
+    codeVerifier,
+    expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MS),
+  });
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: (provider.scopes || ['openid', 'email', 'profile']).join(' '),
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+  return {url: `${metadata.authorization_endpoint}?${params.toString()}`, state};
+}
+
+async function verifyIdToken(provider: OidcProviderConfig, metadata: ProviderMetadata, idToken: string, nonce: string): Promise<OidcClaims> {
+  const decoded = jwt.decode(idToken, {complete: true});
+  if (!decoded || typeof decoded.payload === 'string') throw new OidcError('Malformed ID token', 401);
+
+  const jwk = await getSigningJwk(metadata.jwks_uri, decoded.header.kid);
+  const key = crypto.createPublicKey({key: jwk, format: 'jwk'});
+
+  let claims: OidcClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: provider.clientId,
+    }) as OidcClaims;
+  } catch (err: any) {
+    throw new OidcError(`Invalid ID token: ${err.message}`, 401);
+  }
+
+  if (claims.nonce !== nonce) throw new OidcError('ID token nonce mismatch', 401);
+  if (!claims.sub) throw new OidcError('ID token has no subject', 401);
+  return claims;
+}
+
+// Step 2: validates state, exchanges the code (with the PKCE verifier) and returns verified ID token claims
+export async function handleAuthorizationCallback(providerId: string, code: string, state: string): Promise<OidcClaims> {
+  const provider = getOidcProvider(providerId);
+
+  // single use: a state can only complete one login
+  const pending = await OidcLoginState.findOneAndDelete({state, provider: provider.id, expiresAt: {$gt: new Date()}});
+  if (!pending) throw new OidcError('Invalid or expired login state');
+
+  const metadata = await getMetadata(provider);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: provider.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: pending.codeVerifier,
+  });
+  const headers: Record<string, string> = {'Content-Type': 'application/x-www-form-urlencoded'};
+  if (provider.clientSecret) {
+    if (provider.tokenEndpointAuthMethod === 'client_secret_basic') {
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_secret', provider.clientSecret);
+    }
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, {method: 'POST', headers, body});
+  if (!tokens.id_token) throw new OidcError('Identity provider returned no ID token', 502);
+
+  return verifyIdToken(provider, metadata, tokens.id_token, pending.nonce);
+}
+
+export function findOrCreateUserForOidcClaims(providerId: string, claims: OidcClaims): Promise<IUser> {
+  const provider = getOidcProvider(providerId);
+  return findOrCreateUserForIdentity(provider.id, {
+    subject: claims.sub,
+    email: claims.email,
+    emailVerified: claims.email_verified === true || (claims.email_verified as any) === 'true',
+    name: claims.name,
+    givenName: claims.given_name,
+    familyName: claims.family_name,
+  }, {allowSignup: provider.allowSignup});
+}
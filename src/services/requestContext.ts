@@ -0,0 +1,44 @@
+import {AsyncLocalStorage, AsyncResource} from 'async_hooks';
+import {AuthPrincipal} from '../types/auth';
+
+// Who is doing what, available to code that has no access to the request
+// (Mongoose hooks, see models/plugins/audit)
+export interface RequestContext {
+  requestId: string;
+  ip?: string;
+  userAgent?: string;
+  method?: string;
+  path?: string;
+  actorId?: string;
+  // admin acting as actorId (impersonation)
+  impersonatorId?: string;
+  apiKeyId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+// undefined outside a request, e.g. in jobs and scripts
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+// Called by authMiddleware once the caller is known
+export function setRequestPrincipal(principal: AuthPrincipal): void {
+  const context = storage.getStore();
+  if (!context) return;
+  context.actorId = principal.id;
+  context.impersonatorId = principal.actorId;
+  context.apiKeyId = principal.apiKeyId;
+}
+
+// Stream based middleware (multer) calls `next` from socket events, which run
+// outside the request's async context. Binding `next` restores it.
+export function bindRequestContext<Req, Res, Next extends (...args: any[]) => void>(
+    middleware: (req: Req, res: Res, next: Next) => void
+): (req: Req, res: Res, next: Next) => void {
+  return (req, res, next) => middleware(req, res, AsyncResource.bind(next) as Next);
+}
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import {Request} from 'express';
+import {Types} from 'mongoose';
+import Session from '../models/Session';
+import RefreshToken from '../models/RefreshToken';
+import {revokeRefreshTokenFamily} from './jwt';
+
+export interface SessionMeta {
+  userAgent?: string;
+  ip?: string;
+}
+
+export function requestMeta(req: Request): SessionMeta {
+  return {
+    userAgent: req.get('user-agent') || undefined,
+    ip: req.ip || req.socket.remoteAddress || undefined,
+  };
+}
+
+// Records a new login and returns the refresh token family id that identifies it
+export async function startSession(userId: Types.ObjectId | string, meta: SessionMeta): Promise<string> {
+  const familyId = crypto.randomUUID();
+  await Session.create({
+    userId,
+    familyId,
+    userAgent: meta.userAgent,
+    ip: meta.ip,
+    lastIp: meta.ip,
+    lastRefreshedAt: new Date(),
+  });
+  return familyId;
+}
+
+// Called on every refresh. Upserts so families issued before sessions were
+// recorded get a session entry on their next refresh.
+export async function touchSession(userId: Types.ObjectId | string, familyId: string, meta: SessionMeta): Promise<void> {
+  await Session.updateOne(
+      {familyId},
+      {
+        $set: {lastRefreshedAt: new Date(), lastIp: meta.ip},
+        $setOnInsert: {userId, userAgent: meta.userAgent, ip: meta.ip},
+      },
+      {upsert: true}
+  );
+}
+
+// Sessions whose refresh token family is still usable, newest activity first
+export async function listActiveSessions(userId: Types.ObjectId | string) {
+  const activeFamilies = await RefreshToken.distinct('familyId', {
+    userId,
+    revokedAt: null,
+    expiresAt: {$gt: new Date()},
+  });
+
+  return Session.find({userId, familyId: {$in: activeFamilies}})
+      .sort({lastRefreshedAt: -1})
+      .lean();
+}
+
+// Returns false when the session doesn't exist or belongs to someone else
+export async function revokeSession(userId: Types.ObjectId | string, sessionId: string): Promise<boolean> {
+  const session = await Session.findOne({_id: sessionId, userId}).lean();
+  if (!session) return false;
+
+  await revokeRefreshTokenFamily(session.familyId);
+  return true;
+}
+
+// "Sign out everywhere else": revokes every family of the user except keepFamilyId
+export async function revokeOtherSessions(userId: Types.ObjectId | string, keepFamilyId?: string): Promise<number> {
+  const filter: Record<string, any> = {userId, revokedAt: null};
+  if (keepFamilyId) filter.familyId = {$ne: keepFamilyId};
+
+  const families: string[] = await RefreshToken.distinct('familyId', filter);
+  await Promise.all(families.map(familyId => revokeRefreshTokenFamily(familyId)));
+  return families.length;
+}
+
+// Public shape of a session; the family id stays internal
+export function toSessionView(session: any, currentFamilyId?: string) {
+  return {
+    id: String(session._id),
+    userAgent: session.userAgent,
+    ip: session.ip,
+    lastIp: session.lastIp,
+    createdAt: session.createdAt,
+    lastRefreshedAt: session.lastRefreshedAt,
+    current: Boolean(currentFamilyId) && session.familyId === currentFamilyId,
+  };
+}
@@ -0,0 +1,146 @@
+import {Types} from 'mongoose';
+import User, {EnumRoles, IUser} from '../models/User';
+import UserFlat from '../models/UserFlat';
+import Flat from '../models/Flats';
+import RefreshToken from '../models/RefreshToken';
+import Session from '../models/Session';
+import UserToken from '../models/UserToken';
+import ApiKey from '../models/ApiKey';
+import ImpersonationLog from '../models/ImpersonationLog';
+import {invalidateUserTokens} from './jwt';
+import {unlockAccount} from './loginThrottle';
+import {destroyImage} from './imageUploads';
+import {redactAuditTrail} from './audit';
+
+// Soft-deleted users are kept this long so an admin can restore them
+export const USER_RETENTION_DAYS = Number(process.env.USER_RETENTION_DAYS || 30);
+// How often the app runs the purge, 0 disables it (e.g. when cron runs `npm run purge:users`)
+const USER_PURGE_INTERVAL_HOURS = Number(process.env.USER_PURGE_INTERVAL_HOURS ?? 24);
+
+// Hides the user everywhere and signs them out; nothing is removed yet.
+// Returns null when the user doesn't exist or is already deleted.
+export async function softDeleteUser(userId: Types.ObjectId | string, deletedBy?: string): Promise<IUser | null> {
+  const user = await User.findOneAndUpdate(
+      {_id: userId, deletedAt: null},
+      {deletedAt: new Date(), deletedBy: deletedBy || null},
+      {new: true}
+  );
+  if (!user) return null;
+
+  await invalidateUserTokens(String(user._id));
+  await ApiKey.updateMany({ownerId: user._id, revokedAt: null}, {revokedAt: new Date()});
+  return user;
+}
+
+// Revoked tokens and API keys stay revoked, the user signs in again
+export async function restoreUser(userId: Types.ObjectId | string): Promise<IUser | null> {
+  return User.findOneAndUpdate(
+      {_id: userId, deletedAt: {$ne: null}},
+      {deletedAt: null, deletedBy: null},
+      {new: true}
+  );
+}
+
+// Deletes everything the user could sign in with, plus device data. Records kept
+// for accountability (impersonation log) lose their personal data.
+async function removeCredentialsAndDeviceData(user: Pick<IUser, '_id' | 'email'>): Promise<void> {
+  const userId = user._id;
+
+  await RefreshToken.deleteMany({userId});
+  await Session.deleteMany({userId});
+  await UserToken.deleteMany({userId});
+  await ApiKey.deleteMany({ownerId: userId});
+  await unlockAccount(user.email);
+
+  await ImpersonationLog.updateMany(
+      {$or: [{userId}, {actorId: userId}]},
+      {$unset: {ip: 1, userAgent: 1, reason: 1}}
+  );
+}
+
+// Erasure request: unlike a purge the document stays, so flats assigned to the
+// user (UserFlat, User.flats) and images they uploaded keep a valid reference,
+// but nothing left on it identifies the person. Returns null for unknown users.
+export async function eraseUser(userId: Types.ObjectId | string): Promise<IUser | null> {
+  // soft-deleted users can be erased right away instead of waiting for the purge
+  const user = await User.findById(userId).setOptions({withDeleted: true});
+  if (!user) return null;
+  if (user.erasedAt) return user;
+
+  await removeCredentialsAndDeviceData(user);
+
+  await User.updateOne({_id: user._id}, {
+    $set: {
+      email: `erased-${user._id}@erased.invalid`,
+      firstName: 'Erased',
+      lastName: 'User',
+      roles: [EnumRoles.USER],
+      emailVerified: false,
+      mfaEnabled: false,
+      mfaRequired: false,
+      erasedAt: new Date(),
+    },
+    $unset: {
+      age: 1,
+      birthDate: 1,
+      address: 1,
+      password: 1,
+      passwordHistory: 1,
+      emailVerifiedAt: 1,
+      mfaSecret: 1,
+      mfaPendingSecret: 1,
+      mfaRecoveryCodes: 1,
+      mfaLastUsedStep: 1,
+      identities: 1,
+      avatar: 1,
+    },
+    // access tokens still in circulation stop working
+    $inc: {tokenVersion: 1},
+  });
+  destroyImage(user.avatar);
+  // also covers the entry of the update above
+  await redactAuditTrail(user._id);
+
+  return User.findById(user._id).setOptions({withDeleted: true});
+}
+
+// Removes one user for good, including the flats assigned to them
+async function purgeUser(user: Pick<IUser, '_id' | 'email' | 'avatar'>): Promise<void> {
+  await UserFlat.deleteMany({userId: user._id});
+  await removeCredentialsAndDeviceData(user);
+
+  const userId = user._id;
+  await Flat.updateMany(
+      {'images.uploadedBy': userId},
+      {$unset: {'images.$[image].uploadedBy': 1}},
+      {arrayFilters: [{'image.uploadedBy': userId}]}
+  );
+  // users deleted or invited by this (admin) user would keep pointing at a purged id
+  await User.updateMany({deletedBy: userId}, {deletedBy: null});
+  await User.updateMany({invitedBy: userId}, {$unset: {invitedBy: 1}});
+  await User.deleteOne({_id: userId});
+  await redactAuditTrail(userId);
+  destroyImage(user.avatar);
+}
+
+// Purges every user soft-deleted more than USER_RETENTION_DAYS ago
+export async function purgeDeletedUsers(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - USER_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const users = await User.find({deletedAt: {$ne: null, $lte: cutoff}}).select('email avatar').lean();
+
+  for (const user of users) {
+    await purgeUser(user);
+  }
+  return users.length;
+}
+
+export function startUserPurgeJob(): void {
+  if (!USER_PURGE_INTERVAL_HOURS) return;
+
+  const run = () => purgeDeletedUsers()
+      .then(count => count && console.log(`Purged ${count} deleted user(s)`))
+      .catch(err => console.error('User purge failed:', err));
+
+  run();
+  setInterval(run, USER_PURGE_INTERVAL_HOURS * 60 * 60 * 1000).unref();
+}
@@ -0,0 +1,62 @@
+import {Types} from 'mongoose';
+import User from '../models/User';
+import UserFlat from '../models/UserFlat';
+import Flat from '../models/Flats';
+import Session from '../models/Session';
+import ApiKey from '../models/ApiKey';
+import ImpersonationLog from '../models/ImpersonationLog';
+import {listActiveSessions, toSessionView} from './sessions';
+
+// Bump when the shape of the export changes, so consumers can tell versions apart
+const EXPORT_FORMAT_VERSION = 1;
+
+// Everything stored about one user, for data access requests. Secrets (password
+// and MFA material, API key hashes) are never included. Returns null for unknown users.
+export async function buildUserExport(userId: Types.ObjectId | string) {
+  const user = await User.findById(userId).setOptions({withDeleted: true});
+  if (!user) return null;
+
+  const assignments = await UserFlat.find({userId: user._id}).populate('flatId').lean();
+
+  const flatsWithUploads = await Flat.find({'images.uploadedBy': user._id}).select('images').lean();
+  const uploadedImages = flatsWithUploads.flatMap(flat => (flat.images || [])
+      .filter(image => String(image.uploadedBy) === String(user._id))
+      .map(image => ({
+        flatId: String(flat._id),
+        imageId: String(image._id),
+        filename: image.filename,
+        contentType: image.contentType,
+        size: image.size,
+        url: image.url,
+        storage: image.storage,
+        uploadedAt: image.createdAt,
+      })));
+
+  const activeSessionIds = new Set((await listActiveSessions(user._id)).map(session => String(session._id)));
+  const sessions = (await Session.find({userId: user._id}).sort({createdAt: -1}).lean())
+      .map(session => ({...toSessionView(session), active: activeSessionIds.has(String(session._id))}));
+
+  const apiKeys = await ApiKey.find({ownerId: user._id})
+      .select('name prefix scopes expiresAt lastUsedAt revokedAt createdAt')
+      .lean();
+
+  // admins acting as this user, with what they did
+  const impersonations = await ImpersonationLog.find({userId: user._id})
+      .select('-_id -__v -userId')
+      .sort({createdAt: -1})
+      .lean();
+
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: user.toJSON(),
+    flats: assignments.map(assignment => ({
+      assignmentId: String(assignment._id),
+      flat: assignment.flatId,
+    })),
+    uploadedImages,
+    sessions,
+    apiKeys,
+    impersonations,
+  };
+}
@@ -0,0 +1,195 @@
+import mongoose from 'mongoose';
+import User, {EnumRoles, IUser, ROLES} from '../models/User';
+import {EnumUserTokenPurpose} from '../models/UserToken';
+import {normalizeEmail, validateUserProfile} from '../helpers/userValidation';
+import {parseCsvRecords} from '../helpers/csv';
+import {issueUserToken} from './userTokens';
+import {sendMail} from './mail';
+
+export const USER_IMPORT_MAX_ROWS = Number(process.env.USER_IMPORT_MAX_ROWS || 1000);
+export const USER_IMPORT_MAX_BYTES = Number(process.env.USER_IMPORT_MAX_BYTES || 2 * 1024 * 1024);
+const USER_INVITATION_TTL_MS = Number(process.env.USER_INVITATION_TTL_HOURS || 72) * 60 * 60 * 1000;
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+// The whole file is rejected (bad format, too many rows), as opposed to a single row failing
+export class UserImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserImportError';
+  }
+}
+
+export type ImportRowStatus = 'created' | 'skipped' | 'failed';
+
+export interface ImportRowResult {
+  // 1-based position in the file, the CSV header not counted
+  row: number;
+  email?: string;
+  status: ImportRowStatus;
+  id?: string;
+  // false when the user was created but the invitation mail could not be sent
+  invitationSent?: boolean;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  // validate and report without writing anything or sending mail
+  dryRun?: boolean;
+  invitedBy?: string;
+  // whether rows may set `roles`, see roles:manage
+  allowRoles?: boolean;
+}
+
+// Accepts a CSV file with a header row, or JSON: an array of users or {users: [...]}
+export function parseImportFile(file: Pick<Express.Multer.File, 'buffer' | 'mimetype' | 'originalname'>): Record<string, any>[] {
+  const text = file.buffer.toString('utf8');
+  const isJson = file.mimetype === 'application/json' || /\.json$/i.test(file.originalname || '');
+
+  if (isJson) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new UserImportError('File is not valid JSON');
+    }
+    return toRecords(data);
+  }
+
+  try {
+    return parseCsvRecords(text);
+  } catch (err: any) {
+    throw new UserImportError(`File is not valid CSV: ${err.message}`);
+  }
+}
+
+export function toRecords(data: unknown): Record<string, any>[] {
+  const records = Array.isArray(data) ? data : (data as any)?.users;
+  if (!Array.isArray(records)) throw new UserImportError('Expected an array of users or {users: [...]}');
+  if (records.some(record => !record || typeof record !== 'object' || Array.isArray(record))) {
+    throw new UserImportError('Every user must be an object');
+  }
+  return records;
+}
+
+// `roles` may be an array or a string separated by `,`, `;` or `|` (CSV cells)
+function parseRoles(raw: unknown): { roles?: EnumRoles[]; error?: string } {
+  if (raw === undefined || raw === null || raw === '') return {};
+  const list = (Array.isArray(raw) ? raw : String(raw).split(/[,;|]/)).map(role => String(role).trim()).filter(Boolean);
+  const unknown = list.filter(role => !(ROLES as readonly string[]).includes(role));
+  if (unknown.length) return {error: `unknown roles: ${unknown.join(', ')}`};
+  return {roles: [...new Set(list)] as EnumRoles[]};
+}
+
+export async function sendInvitationEmail(user: Pick<IUser, '_id' | 'email' | 'firstName'>): Promise<void> {
+  const token = await issueUserToken(user._id, EnumUserTokenPurpose.INVITATION, USER_INVITATION_TTL_MS);
+  await sendMail({
+    to: user.email,
+    subject: 'You have been invited',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      `An account has been created for you. Use the link below to choose your password. It expires in ${USER_INVITATION_TTL_MS / 3600000} hours;`,
+      'after that you can use "Forgot password" to get a new link.',
+      `${APP_URL}/accept-invitation?token=${token}`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Validates every row with the registration rules and creates the valid ones
+ * without a password; each new user gets an invitation to set one. Emails that
+ * are already registered (soft-deleted users included) or appear earlier in the
+ * file are skipped. Rows are independent, one failing row doesn't stop the rest.
+ */
+export async function importUsers(records: Record<string, any>[], options: ImportOptions = {}): Promise<ImportReport> {
+  if (!records.length) throw new UserImportError('The file contains no users');
+  if (records.length > USER_IMPORT_MAX_ROWS) {
+    throw new UserImportError(`At most ${USER_IMPORT_MAX_ROWS} users can be imported at once, got ${records.length}`);
+  }
+  if (records.some(record => 'password' in record)) {
+    throw new UserImportError('Passwords cannot be imported, imported users are invited to choose their own');
+  }
+
+  const emails = records.map(record => normalizeEmail(record.email)).filter(Boolean);
+  const registered = await User.find({email: {$in: emails}}).setOptions({withDeleted: true}).select('email').lean();
+  const taken = new Set(registered.map(user => user.email));
+  const seen = new Set<string>();
+
+  const rows: ImportRowResult[] = [];
+  for (const [index, record] of records.entries()) {
+    const row = index + 1;
+    const {errors, value: profile} = validateUserProfile(record);
+    const {roles, error: rolesError} = parseRoles(record.roles);
+    if (rolesError) errors.push(rolesError);
+    if (roles && !options.allowRoles) errors.push('assigning roles requires the roles:manage permission');
+
+    const email = profile.email || undefined;
+    if (errors.length) {
+      rows.push({row, email, status: 'failed', errors});
+      continue;
+    }
+
+    if (taken.has(profile.email)) {
+      rows.push({row, email, status: 'skipped', errors: ['email already registered']});
+      continue;
+    }
+    if (seen.has(profile.email)) {
+      rows.push({row, email, status: 'skipped', errors: ['duplicate email in file']});
+      continue;
+    }
+    seen.add(profile.email);
+
+    const user = new User({
+      ...profile,
+      ...(roles?.length ? {roles} : {}),
+      emailVerified: false,
+      invitedAt: new Date(),
+      invitedBy: options.invitedBy || null,
+    });
+
+    try {
+      if (options.dryRun) {
+        await user.validate();
+        rows.push({row, email, status: 'created'});
+        continue;
+      }
+      await user.save();
+    } catch (err: any) {
+      // registered in the meantime
+      if (err?.code === 11000) {
+        rows.push({row, email, status: 'skipped', errors: ['email already registered']});
+      } else if (err instanceof mongoose.Error.ValidationError) {
+        rows.push({row, email, status: 'failed', errors: Object.values(err.errors).map(e => e.message)});
+      } else {
+        throw err;
+      }
+      continue;
+    }
+
+    // like registration, the account exists even if the mail can't be sent
+    const invitationSent = await sendInvitationEmail(user).then(() => true, err => {
+      console.error(`Failed to send invitation to ${user.email}:`, err);
+      return false;
+    });
+    rows.push({row, email, status: 'created', id: String(user._id), invitationSent});
+  }
+
+  const count = (status: ImportRowStatus) => rows.filter(result => result.status === status).length;
+  return {
+    dryRun: Boolean(options.dryRun),
+    total: rows.length,
+    created: count('created'),
+    skipped: count('skipped'),
+    failed: count('failed'),
+    rows,
+  };
+}
@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import {Types} from 'mongoose';
+import UserToken, {EnumUserTokenPurpose} from '../models/UserToken';
+import {hashToken} from './jwt';
+
+// Issues a new token and invalidates any unused token of the same purpose,
+// so only the most recent link sent to the user works.
+export async function issueUserToken(
+    userId: Types.ObjectId | string,
+    purpose: EnumUserTokenPurpose,
+    ttlMs: number
+): Promise<string> {
+  await UserToken.updateMany({userId, purpose, usedAt: null}, {usedAt: new Date()});
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await UserToken.create({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+
+  return token;
+}
+
+// Marks the token as used and returns its user id, or null when the token is
+// unknown, expired or already used.
+export async function consumeUserToken(token: string, purpose: EnumUserTokenPurpose): Promise<Types.ObjectId | null> {
+  const record = await UserToken.findOneAndUpdate(
+      {tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: {$gt: new Date()}},
+      {usedAt: new Date()},
+      {new: true}
+  );
+  return record ? record.userId : null;
+}
+
+// Same checks as consumeUserToken without using the token up, for validating a
+// request before committing to it.
+export async function findUserTokenOwner(token: string, purpose: EnumUserTokenPurpose): Promise<Types.ObjectId | null> {
+  const record = await UserToken.findOne(
+      {tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: {$gt: new Date()}}
+  ).lean();
+  return record ? record.userId : null;
+}
@@ -20,6 +20,33 @@ const options: any = {
           type: 'https',
           scheme: 'bearer',
           bearerFormat: 'JWT',
+          description: 'Access token from /auth/login, or a Firebase ID token when FIREBASE_AUTH_ENABLED=true',
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+        },
+      },
+      // shared by every paginated list endpoint (see helpers/pagination.ts)
+      parameters: {
+        PageLimit: {
+          in: 'query',
+          name: 'limit',
+          schema: {type: 'integer', minimum: 1},
+          description: 'Page size, default 50, capped at PAGINATION_MAX_LIMIT (100)',
+        },
+        PageCursor: {
+          in: 'query',
+          name: 'cursor',
+          schema: {type: 'string'},
+          description: 'nextCursor or prevCursor of a previous response; send the same sort',
+        },
+        PageSkip: {
+          in: 'query',
+          name: 'skip',
+          schema: {type: 'integer', minimum: 0},
+          description: 'Offset paging, kept for backward compatibility; ignored with cursor',
         },
       },
       schemas: {
@@ -32,6 +59,47 @@ const options: any = {
             lastName: {type: 'string'},
             age: {type: 'integer'},
             address: {type: 'object'},
+            roles: {type: 'array', items: {type: 'string', enum: ['admin', 'editor', 'agent', 'user']}},
+            emailVerified: {type: 'boolean'},
+            deletedAt: {type: 'string', format: 'date-time', nullable: true},
+            erasedAt: {type: 'string', format: 'date-time'},
+            invitedAt: {type: 'string', format: 'date-time', description: 'Set for users created by POST /users/import'},
+            identities: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  provider: {type: 'string'},
+                  subject: {type: 'string'},
+                  email: {type: 'string'},
+                  linkedAt: {type: 'string', format: 'date-time'},
+                },
+              },
+            },
+            avatar: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                url: {type: 'string'},
+                filename: {type: 'string'},
+                size: {type: 'integer'},
+                contentType: {type: 'string'},
+                storage: {type: 'string', enum: ['local', 'firebase', 'cloudinary']},
+                cloudinaryPublicId: {type: 'string'},
+                uploadedBy: {type: 'string'},
+              },
+            },
+            avatarUrls: {
+              type: 'object',
+              nullable: true,
+              description: 'Square renditions of the avatar (64, 256 and 512 px) and the stored original',
+              properties: {
+                small: {type: 'string'},
+                medium: {type: 'string'},
+                large: {type: 'string'},
+                original: {type: 'string'},
+              },
+            },
           },
         },
         Product: {
@@ -79,6 +147,81 @@ const options: any = {
             updatedAt: {type: 'string', format: 'date-time'},
           },
         },
+        Category: {
+          type: 'object',
+          properties: {
+            _id: {type: 'string'},
+            categoryId: {type: 'integer'},
+            slug: {type: 'string'},
+            parentId: {type: 'integer', nullable: true},
+            names: {
+              type: 'object',
+              description: 'Name per language, keyed by languageId',
+              properties: {
+                1: {type: 'string'},
+                2: {type: 'string'},
+                3: {type: 'string'},
+              },
+            },
+            name: {type: 'string', description: 'Only when a language is requested: the name in it, or the fallback'},
+            status: {type: 'boolean'},
+            createdAt: {type: 'string', format: 'date-time'},
+            updatedAt: {type: 'string', format: 'date-time'},
+          },
+        },
+        InfoCardDetail: {
+          type: 'object',
+          properties: {
+            infoCardDetailId: {type: 'integer'},
+            infoCardId: {type: 'integer'},
+            languageId: {type: 'integer', description: '1=GE, 2=EN, 3=RU'},
+            title: {type: 'string'},
+            subTitle: {type: 'string'},
+            status: {type: 'boolean', description: 'false hides this language from public responses, which fall back to another language'},
+          },
+        },
+        InfoCard: {
+          type: 'object',
+          properties: {
+            _id: {type: 'string'},
+            infoCardId: {type: 'integer'},
+            status: {type: 'boolean'},
+            publishFrom: {type: 'string', format: 'date-time', nullable: true},
+            publishUntil: {type: 'string', format: 'date-time', nullable: true},
+            position: {type: 'integer'},
+            image: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                _id: {type: 'string'},
+                url: {type: 'string'},
+                filename: {type: 'string'},
+                size: {type: 'integer'},
+                contentType: {type: 'string'},
+                storage: {type: 'string', enum: ['local', 'firebase', 'cloudinary']},
+                cloudinaryPublicId: {type: 'string'},
+                alt: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      languageId: {type: 'integer'},
+                      text: {type: 'string'},
+                    },
+                  },
+                },
+              },
+            },
+            categoryIdList: {type: 'array', items: {type: 'integer'}},
+            details: {
+              type: 'array',
+              description: 'One entry per language; only the requested (or fallback) language when languageId or lang is sent',
+              items: {$ref: '#/components/schemas/InfoCardDetail'},
+            },
+            createdAt: {type: 'string', format: 'date-time'},
+            updatedAt: {type: 'string', format: 'date-time'},
+          },
+        },
       },
     },
   },
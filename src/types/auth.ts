@@ -1,5 +1,29 @@
 import {IUser} from "../models/User";
+import {Permission} from "../helpers/permissions";
 
-export type IUserForToken = Pick<IUser, 'password' | 'email' | "age" | "address" | 'firstName' | "id" | 'lastName'>;
+// Principal carried by access and refresh tokens. Everything else about the
+// user is loaded from the database when needed (see GET /auth/me).
+export type IUserForToken = Pick<IUser, "id" | 'roles'> & {
+  tokenVersion: number;
+  // refresh token family (login session) the token belongs to
+  sessionId?: string;
+  // set on impersonation tokens: the admin acting as this user
+  actorId?: string;
+};
 
+// Claims as they appear inside the JWT
+export interface AccessTokenClaims {
+  sub: string;
+  roles: IUser['roles'];
+  ver: number;
+  sid?: string;
+  // RFC 8693 actor claim, present while an admin impersonates the subject
+  act?: { sub: string };
+}
 
+// What authMiddleware attaches to req.user
+export type AuthPrincipal = IUserForToken & {
+  // set when the request authenticated with an API key instead of a JWT
+  apiKeyId?: string;
+  scopes?: Permission[];
+};